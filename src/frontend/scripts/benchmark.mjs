@@ -0,0 +1,40 @@
+// Times the entries table's first render at the budgeted row count and exits
+// non-zero if the median run is over the performance budget.
+//
+//   pnpm benchmark [rowCount]
+import { createServer } from 'vite';
+
+const RUNS = 7;
+
+const server = await createServer({
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom'
+});
+
+try {
+    const { BUDGET_ROW_COUNT, checkAgainstBudget, formatBudgetMeasurement } = await server.ssrLoadModule(
+        '/src/utils/performanceBudget.ts'
+    );
+    const { measureEntriesTableFirstRender } = await server.ssrLoadModule(
+        '/src/benchmarks/entriesTable.benchmark.tsx'
+    );
+    const rowCount = Number(process.argv[2] ?? BUDGET_ROW_COUNT);
+
+    // The first run also pays for module compilation and JIT warm-up
+    await measureEntriesTableFirstRender(rowCount);
+
+    const durations = [];
+    for (let run = 0; run < RUNS; run++) {
+        const { durationMs } = await measureEntriesTableFirstRender(rowCount);
+        durations.push(durationMs);
+    }
+    durations.sort((a, b) => a - b);
+
+    const median = checkAgainstBudget('entries-table:first-render', durations[Math.floor(RUNS / 2)], rowCount);
+    console.log(formatBudgetMeasurement(median));
+    console.log(`runs: ${durations.map((duration) => Math.round(duration)).join(', ')} ms`);
+    process.exitCode = median.overBudget ? 1 : 0;
+} finally {
+    await server.close();
+}
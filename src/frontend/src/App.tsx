@@ -1,10 +1,50 @@
+import { createRootRoute, createRoute, createRouter, RouterProvider } from '@tanstack/react-router';
 import { DataEntryPage } from './pages/DataEntryPage';
+import { CustomersPage } from './pages/CustomersPage';
+import { CustomerPage } from './pages/CustomerPage';
+import { AppLayout } from './components/AppLayout';
 import { Toaster } from '@/components/ui/sonner';
+import { validateEntriesSearch } from './utils/entrySearchParams';
+
+const rootRoute = createRootRoute({
+  component: AppLayout,
+});
+
+// Filters and sort live in the search params, so a filtered view can be bookmarked
+const entriesRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/',
+  validateSearch: validateEntriesSearch,
+  component: DataEntryPage,
+});
+
+const customersRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/customers',
+  component: CustomersPage,
+});
+
+// Keyed by normalized mobile number
+const customerRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/customers/$mobileNumber',
+  component: CustomerPage,
+});
+
+const routeTree = rootRoute.addChildren([entriesRoute, customersRoute, customerRoute]);
+
+const router = createRouter({ routeTree });
+
+declare module '@tanstack/react-router' {
+  interface Register {
+    router: typeof router;
+  }
+}
 
 function App() {
   return (
     <>
-      <DataEntryPage />
+      <RouterProvider router={router} />
       <Toaster />
     </>
   );
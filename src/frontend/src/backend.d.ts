@@ -7,24 +7,220 @@ export interface None {
     __kind__: "None";
 }
 export type Option<T> = Some<T> | None;
+export declare class ExternalBlob {
+    getBytes(): Promise<Uint8Array<ArrayBuffer>>;
+    getDirectURL(): string;
+    static fromURL(url: string): ExternalBlob;
+    static fromBytes(blob: Uint8Array<ArrayBuffer>): ExternalBlob;
+    withUploadProgress(onProgress: (percentage: number) => void): ExternalBlob;
+}
+export interface Attachment {
+    id: bigint;
+    contentType: string;
+    blob: ExternalBlob;
+    fileName: string;
+    sizeBytes: bigint;
+    uploadedAt: Time;
+    uploadedBy?: Principal;
+}
+export interface AttachmentInput {
+    contentType: string;
+    blob: ExternalBlob;
+    fileName: string;
+    sizeBytes: bigint;
+}
+export type AttachmentError = {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "invalidFile";
+    invalidFile: {
+        message: string;
+    };
+} | {
+    __kind__: "unauthorized";
+    unauthorized: {
+        message: string;
+    };
+};
+export interface CustomerSummary {
+    lastTransactionDate?: string;
+    owner: Principal;
+    customer: Customer;
+    entryCount: bigint;
+    balancePaise: bigint;
+}
+export interface Customer {
+    name: string;
+    alternateNames: Array<string>;
+    createdAt: Time;
+    mobileNumber: string;
+    updatedAt: Time;
+    notes: string;
+}
+export interface CustomerInput {
+    name: string;
+    alternateNames: Array<string>;
+    mobileNumber: string;
+    notes: string;
+}
+export type SaveCustomerError = {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+};
+export interface SearchEntriesResult {
+    entries: Array<Entry>;
+    nextOffset?: bigint;
+    totalCount: bigint;
+}
+export interface EntrySort {
+    field: EntrySortField;
+    descending: boolean;
+}
+export interface BulkEntryUpdate {
+    status?: PaymentStatus;
+    settledDate?: string;
+    manualDate?: string;
+}
+export interface EntryFilter {
+    status?: PaymentStatus;
+    notes?: string;
+    categoryId?: bigint;
+    tag?: string;
+    minDays?: bigint;
+    maxDays?: bigint;
+    searchText?: string;
+    mobilePrefix?: string;
+    customerName?: string;
+    toDate?: string;
+    maxAmount?: bigint;
+    minAmount?: bigint;
+    fromDate?: string;
+}
+export interface EntryRevision {
+    status: PaymentStatus;
+    notes: string;
+    categoryId?: bigint;
+    tags: Array<string>;
+    kind: EntryKind;
+    settledDate?: string;
+    customerName: string;
+    changedAt: Time;
+    changedBy?: Principal;
+    change: EntryChange;
+    mobileNumber: string;
+    paidPaise: bigint;
+    amountPaise: bigint;
+    manualDate: string;
+}
+export interface EntriesPage {
+    entries: Array<Entry>;
+    nextCursor?: EntryCursor;
+}
 export interface Entry {
+    status: PaymentStatus;
+    notes: string;
+    categoryId?: bigint;
+    tags: Array<string>;
+    kind: EntryKind;
+    settledDate?: string;
+    payments: Array<Payment>;
     id: string;
+    receiptNumber: string;
     customerName: string;
     owner?: Principal;
+    deletedAt?: Time;
+    deletedBy?: Principal;
+    updatedAt: Time;
+    version: bigint;
     createdAt: Time;
     mobileNumber: string;
-    amountRs: bigint;
+    amountPaise: bigint;
     manualDate: string;
 }
 export type Time = bigint;
-export interface EntryInput {
+export interface EntryAnalyticsBucket {
+    month: bigint;
+    year: bigint;
+    count: bigint;
+    categoryId?: bigint;
+    creditPaise: bigint;
+    debitPaise: bigint;
+}
+export interface EntryCursor {
     id: string;
+    createdAt: Time;
+}
+export interface EntryInput {
+    status?: PaymentStatus;
+    notes: string;
+    categoryId?: bigint;
+    tags: Array<string>;
+    kind?: EntryKind;
+    settledDate?: string;
+    id?: string;
     customerName: string;
     mobileNumber: string;
-    amountRs: bigint;
+    amountPaise: bigint;
     manualDate: string;
 }
+export interface Payment {
+    id: bigint;
+    date: string;
+    mode: PaymentMode;
+    recordedAt: Time;
+    recordedBy?: Principal;
+    amountPaise: bigint;
+}
+export interface PaymentInput {
+    date: string;
+    mode: PaymentMode;
+    amountPaise: bigint;
+}
+export type PaymentError = {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "unauthorized";
+    unauthorized: {
+        message: string;
+    };
+} | {
+    __kind__: "invalidAmount";
+    invalidAmount: {
+        message: string;
+    };
+} | {
+    __kind__: "invalidCategory";
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateId";
+    duplicateId: {
+        message: string;
+    };
+};
 export type UpdateEntryError = {
+    __kind__: "conflict";
+    conflict: {
+        current: Entry;
+        message: string;
+    };
+} | {
     __kind__: "emptyField";
     emptyField: {
         field: string;
@@ -45,6 +241,16 @@ export type UpdateEntryError = {
     invalidAmount: {
         message: string;
     };
+} | {
+    __kind__: "invalidCategory";
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateId";
+    duplicateId: {
+        message: string;
+    };
 };
 export type DeleteEntryError = {
     __kind__: "notFound";
@@ -68,24 +274,180 @@ export type CreateEntryError = {
     invalidAmount: {
         message: string;
     };
+} | {
+    __kind__: "invalidCategory";
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateId";
+    duplicateId: {
+        message: string;
+    };
+};
+export interface Category {
+    id: bigint;
+    name: string;
+}
+export type SaveCategoryError = {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateName";
+    duplicateName: {
+        message: string;
+    };
+};
+export type DeleteCategoryError = {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "inUse";
+    inUse: {
+        message: string;
+    };
 };
 export interface UserProfile {
     name: string;
 }
+export interface EntryColumnSetting {
+    column: EntryColumn;
+    visible: boolean;
+}
+export interface EntryView {
+    id: bigint;
+    columns: Array<EntryColumnSetting>;
+    name: string;
+    sort: EntrySort;
+    filter: EntryFilter;
+}
+export interface EntryViewInput {
+    columns: Array<EntryColumnSetting>;
+    name: string;
+    sort: EntrySort;
+    filter: EntryFilter;
+}
+export type SaveEntryViewError = {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "tooMany";
+    tooMany: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateName";
+    duplicateName: {
+        message: string;
+    };
+};
+export type DeleteEntryViewError = {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+};
+export enum EntryChange {
+    created = "created",
+    deleted = "deleted",
+    restored = "restored",
+    updated = "updated"
+}
+export enum EntryColumn {
+    customerName = "customerName",
+    createdAt = "createdAt",
+    mobileNumber = "mobileNumber",
+    manualDate = "manualDate",
+    amount = "amount",
+    days = "days"
+}
+export enum EntrySortField {
+    customerName = "customerName",
+    createdAt = "createdAt",
+    manualDate = "manualDate",
+    amount = "amount",
+    days = "days"
+}
+export enum EntryKind {
+    credit = "credit",
+    debit = "debit"
+}
+export enum PaymentMode {
+    upi = "upi",
+    other = "other",
+    cash = "cash",
+    cheque = "cheque",
+    bankTransfer = "bankTransfer"
+}
+export enum PaymentStatus {
+    paid = "paid",
+    pending = "pending",
+    writtenOff = "writtenOff",
+    partiallyPaid = "partiallyPaid"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
     guest = "guest"
 }
 export interface backendInterface {
+    addAttachment(entryId: string, input: AttachmentInput): Promise<AttachmentError | null>;
+    addPayment(entryId: string, input: PaymentInput): Promise<PaymentError | null>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
+    createEntries(inputs: Array<EntryInput>): Promise<Array<CreateEntryError | null>>;
     createEntry(input: EntryInput): Promise<CreateEntryError | null>;
+    deleteCategory(id: bigint): Promise<DeleteCategoryError | null>;
+    deleteEntries(ids: Array<string>): Promise<Array<DeleteEntryError | null>>;
     deleteEntry(id: string): Promise<DeleteEntryError | null>;
+    deleteEntryView(id: bigint): Promise<DeleteEntryViewError | null>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
+    getCustomer(mobileNumber: string): Promise<Customer | null>;
+    getEntryAnalytics(allUsers: boolean): Promise<Array<EntryAnalyticsBucket>>;
+    getEntryColumnLayout(): Promise<Array<EntryColumnSetting>>;
+    getEntryHistory(id: string): Promise<Array<EntryRevision>>;
+    getTrashRetentionDays(): Promise<bigint>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
     isCallerAdmin(): Promise<boolean>;
+    listAttachments(entryId: string): Promise<Array<Attachment>>;
+    listCategories(): Promise<Array<Category>>;
+    listCustomerEntries(mobileNumber: string, allUsers: boolean): Promise<Array<Entry>>;
+    listCustomers(allUsers: boolean): Promise<Array<CustomerSummary>>;
     listEntriesNewestFirst(): Promise<Array<Entry>>;
+    listEntriesPage(cursor: EntryCursor | null, pageSize: bigint, allUsers: boolean): Promise<EntriesPage>;
+    listEntryViews(): Promise<Array<EntryView>>;
+    listTags(): Promise<Array<string>>;
+    listTrash(allUsers: boolean): Promise<Array<Entry>>;
+    purgeEntry(id: string): Promise<DeleteEntryError | null>;
+    removeAttachment(entryId: string, attachmentId: bigint): Promise<AttachmentError | null>;
+    removePayment(entryId: string, paymentId: bigint): Promise<PaymentError | null>;
+    restoreEntry(id: string): Promise<DeleteEntryError | null>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
-    updateEntry(id: string, updatedFields: EntryInput): Promise<UpdateEntryError | null>;
+    saveCategory(id: bigint | null, name: string): Promise<SaveCategoryError | null>;
+    saveCustomer(input: CustomerInput): Promise<SaveCustomerError | null>;
+    saveEntryColumnLayout(columns: Array<EntryColumnSetting>): Promise<void>;
+    saveEntryView(id: bigint | null, input: EntryViewInput): Promise<SaveEntryViewError | null>;
+    searchEntries(filter: EntryFilter, sort: EntrySort, offset: bigint, pageSize: bigint, allUsers: boolean): Promise<SearchEntriesResult>;
+    setTrashRetentionDays(days: bigint): Promise<void>;
+    updateEntries(ids: Array<string>, changes: BulkEntryUpdate): Promise<Array<UpdateEntryError | null>>;
+    updateEntry(id: string, updatedFields: EntryInput, expectedVersion: bigint): Promise<UpdateEntryError | null>;
+    updatePayment(entryId: string, paymentId: bigint, input: PaymentInput): Promise<PaymentError | null>;
 }
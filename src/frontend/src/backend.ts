@@ -89,24 +89,213 @@ export class ExternalBlob {
         return this;
     }
 }
+export interface Attachment {
+    id: bigint;
+    contentType: string;
+    blob: ExternalBlob;
+    fileName: string;
+    sizeBytes: bigint;
+    uploadedAt: Time;
+    uploadedBy?: Principal;
+}
+export interface AttachmentInput {
+    contentType: string;
+    blob: ExternalBlob;
+    fileName: string;
+    sizeBytes: bigint;
+}
+export type AttachmentError = {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "invalidFile";
+    invalidFile: {
+        message: string;
+    };
+} | {
+    __kind__: "unauthorized";
+    unauthorized: {
+        message: string;
+    };
+};
+export interface CustomerSummary {
+    lastTransactionDate?: string;
+    owner: Principal;
+    customer: Customer;
+    entryCount: bigint;
+    balancePaise: bigint;
+}
+export interface Customer {
+    name: string;
+    alternateNames: Array<string>;
+    createdAt: Time;
+    mobileNumber: string;
+    updatedAt: Time;
+    notes: string;
+}
+export interface CustomerInput {
+    name: string;
+    alternateNames: Array<string>;
+    mobileNumber: string;
+    notes: string;
+}
+export type SaveCustomerError = {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+};
+export interface SearchEntriesResult {
+    entries: Array<Entry>;
+    nextOffset?: bigint;
+    totalCount: bigint;
+}
+export interface EntrySort {
+    field: EntrySortField;
+    descending: boolean;
+}
+export interface BulkEntryUpdate {
+    status?: PaymentStatus;
+    settledDate?: string;
+    manualDate?: string;
+}
+export interface EntryFilter {
+    status?: PaymentStatus;
+    notes?: string;
+    categoryId?: bigint;
+    tag?: string;
+    minDays?: bigint;
+    maxDays?: bigint;
+    searchText?: string;
+    mobilePrefix?: string;
+    customerName?: string;
+    toDate?: string;
+    maxAmount?: bigint;
+    minAmount?: bigint;
+    fromDate?: string;
+}
+export interface EntryRevision {
+    status: PaymentStatus;
+    notes: string;
+    categoryId?: bigint;
+    tags: Array<string>;
+    kind: EntryKind;
+    settledDate?: string;
+    customerName: string;
+    changedAt: Time;
+    changedBy?: Principal;
+    change: EntryChange;
+    mobileNumber: string;
+    paidPaise: bigint;
+    amountPaise: bigint;
+    manualDate: string;
+}
+export interface EntriesPage {
+    entries: Array<Entry>;
+    nextCursor?: EntryCursor;
+}
 export interface Entry {
+    status: PaymentStatus;
+    notes: string;
+    categoryId?: bigint;
+    tags: Array<string>;
+    kind: EntryKind;
+    settledDate?: string;
+    payments: Array<Payment>;
     id: string;
+    receiptNumber: string;
     customerName: string;
     owner?: Principal;
+    deletedAt?: Time;
+    deletedBy?: Principal;
+    updatedAt: Time;
+    version: bigint;
     createdAt: Time;
     mobileNumber: string;
-    amountRs: bigint;
+    amountPaise: bigint;
     manualDate: string;
 }
 export type Time = bigint;
-export interface EntryInput {
+export interface EntryAnalyticsBucket {
+    month: bigint;
+    year: bigint;
+    count: bigint;
+    categoryId?: bigint;
+    creditPaise: bigint;
+    debitPaise: bigint;
+}
+export interface EntryCursor {
     id: string;
+    createdAt: Time;
+}
+export interface EntryInput {
+    status?: PaymentStatus;
+    notes: string;
+    categoryId?: bigint;
+    tags: Array<string>;
+    kind?: EntryKind;
+    settledDate?: string;
+    id?: string;
     customerName: string;
     mobileNumber: string;
-    amountRs: bigint;
+    amountPaise: bigint;
     manualDate: string;
 }
+export interface Payment {
+    id: bigint;
+    date: string;
+    mode: PaymentMode;
+    recordedAt: Time;
+    recordedBy?: Principal;
+    amountPaise: bigint;
+}
+export interface PaymentInput {
+    date: string;
+    mode: PaymentMode;
+    amountPaise: bigint;
+}
+export type PaymentError = {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "unauthorized";
+    unauthorized: {
+        message: string;
+    };
+} | {
+    __kind__: "invalidAmount";
+    invalidAmount: {
+        message: string;
+    };
+} | {
+    __kind__: "invalidCategory";
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateId";
+    duplicateId: {
+        message: string;
+    };
+};
 export type UpdateEntryError = {
+    __kind__: "conflict";
+    conflict: {
+        current: Entry;
+        message: string;
+    };
+} | {
     __kind__: "emptyField";
     emptyField: {
         field: string;
@@ -127,6 +316,16 @@ export type UpdateEntryError = {
     invalidAmount: {
         message: string;
     };
+} | {
+    __kind__: "invalidCategory";
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateId";
+    duplicateId: {
+        message: string;
+    };
 };
 export type DeleteEntryError = {
     __kind__: "notFound";
@@ -150,10 +349,135 @@ export type CreateEntryError = {
     invalidAmount: {
         message: string;
     };
+} | {
+    __kind__: "invalidCategory";
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateId";
+    duplicateId: {
+        message: string;
+    };
+};
+export interface Category {
+    id: bigint;
+    name: string;
+}
+export type SaveCategoryError = {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateName";
+    duplicateName: {
+        message: string;
+    };
+};
+export type DeleteCategoryError = {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "inUse";
+    inUse: {
+        message: string;
+    };
 };
 export interface UserProfile {
     name: string;
 }
+export interface EntryColumnSetting {
+    column: EntryColumn;
+    visible: boolean;
+}
+export interface EntryView {
+    id: bigint;
+    columns: Array<EntryColumnSetting>;
+    name: string;
+    sort: EntrySort;
+    filter: EntryFilter;
+}
+export interface EntryViewInput {
+    columns: Array<EntryColumnSetting>;
+    name: string;
+    sort: EntrySort;
+    filter: EntryFilter;
+}
+export type SaveEntryViewError = {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "tooMany";
+    tooMany: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateName";
+    duplicateName: {
+        message: string;
+    };
+};
+export type DeleteEntryViewError = {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+};
+export enum EntryChange {
+    created = "created",
+    deleted = "deleted",
+    restored = "restored",
+    updated = "updated"
+}
+export enum EntryColumn {
+    customerName = "customerName",
+    createdAt = "createdAt",
+    mobileNumber = "mobileNumber",
+    manualDate = "manualDate",
+    amount = "amount",
+    days = "days"
+}
+export enum EntrySortField {
+    customerName = "customerName",
+    createdAt = "createdAt",
+    manualDate = "manualDate",
+    amount = "amount",
+    days = "days"
+}
+export enum EntryKind {
+    credit = "credit",
+    debit = "debit"
+}
+export enum PaymentMode {
+    upi = "upi",
+    other = "other",
+    cash = "cash",
+    cheque = "cheque",
+    bankTransfer = "bankTransfer"
+}
+export enum PaymentStatus {
+    paid = "paid",
+    pending = "pending",
+    writtenOff = "writtenOff",
+    partiallyPaid = "partiallyPaid"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
@@ -161,18 +485,49 @@ export enum UserRole {
 }
 export interface backendInterface {
     _initializeAccessControlWithSecret(userSecret: string): Promise<void>;
+    addAttachment(entryId: string, input: AttachmentInput): Promise<AttachmentError | null>;
+    addPayment(entryId: string, input: PaymentInput): Promise<PaymentError | null>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
+    createEntries(inputs: Array<EntryInput>): Promise<Array<CreateEntryError | null>>;
     createEntry(input: EntryInput): Promise<CreateEntryError | null>;
+    deleteCategory(id: bigint): Promise<DeleteCategoryError | null>;
+    deleteEntries(ids: Array<string>): Promise<Array<DeleteEntryError | null>>;
     deleteEntry(id: string): Promise<DeleteEntryError | null>;
+    deleteEntryView(id: bigint): Promise<DeleteEntryViewError | null>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
+    getCustomer(mobileNumber: string): Promise<Customer | null>;
+    getEntryAnalytics(allUsers: boolean): Promise<Array<EntryAnalyticsBucket>>;
+    getEntryColumnLayout(): Promise<Array<EntryColumnSetting>>;
+    getEntryHistory(id: string): Promise<Array<EntryRevision>>;
+    getTrashRetentionDays(): Promise<bigint>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
     isCallerAdmin(): Promise<boolean>;
+    listAttachments(entryId: string): Promise<Array<Attachment>>;
+    listCategories(): Promise<Array<Category>>;
+    listCustomerEntries(mobileNumber: string, allUsers: boolean): Promise<Array<Entry>>;
+    listCustomers(allUsers: boolean): Promise<Array<CustomerSummary>>;
     listEntriesNewestFirst(): Promise<Array<Entry>>;
+    listEntriesPage(cursor: EntryCursor | null, pageSize: bigint, allUsers: boolean): Promise<EntriesPage>;
+    listEntryViews(): Promise<Array<EntryView>>;
+    listTags(): Promise<Array<string>>;
+    listTrash(allUsers: boolean): Promise<Array<Entry>>;
+    purgeEntry(id: string): Promise<DeleteEntryError | null>;
+    removeAttachment(entryId: string, attachmentId: bigint): Promise<AttachmentError | null>;
+    removePayment(entryId: string, paymentId: bigint): Promise<PaymentError | null>;
+    restoreEntry(id: string): Promise<DeleteEntryError | null>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
-    updateEntry(id: string, updatedFields: EntryInput): Promise<UpdateEntryError | null>;
+    saveCategory(id: bigint | null, name: string): Promise<SaveCategoryError | null>;
+    saveCustomer(input: CustomerInput): Promise<SaveCustomerError | null>;
+    saveEntryColumnLayout(columns: Array<EntryColumnSetting>): Promise<void>;
+    saveEntryView(id: bigint | null, input: EntryViewInput): Promise<SaveEntryViewError | null>;
+    searchEntries(filter: EntryFilter, sort: EntrySort, offset: bigint, pageSize: bigint, allUsers: boolean): Promise<SearchEntriesResult>;
+    setTrashRetentionDays(days: bigint): Promise<void>;
+    updateEntries(ids: Array<string>, changes: BulkEntryUpdate): Promise<Array<UpdateEntryError | null>>;
+    updateEntry(id: string, updatedFields: EntryInput, expectedVersion: bigint): Promise<UpdateEntryError | null>;
+    updatePayment(entryId: string, paymentId: bigint, input: PaymentInput): Promise<PaymentError | null>;
 }
-import type { CreateEntryError as _CreateEntryError, DeleteEntryError as _DeleteEntryError, Entry as _Entry, Time as _Time, UpdateEntryError as _UpdateEntryError, UserProfile as _UserProfile, UserRole as _UserRole } from "./declarations/backend.did.d.ts";
+import type { Attachment as _Attachment, AttachmentError as _AttachmentError, AttachmentInput as _AttachmentInput, BulkEntryUpdate as _BulkEntryUpdate, Category as _Category, CreateEntryError as _CreateEntryError, Customer as _Customer, CustomerSummary as _CustomerSummary, DeleteCategoryError as _DeleteCategoryError, DeleteEntryError as _DeleteEntryError, DeleteEntryViewError as _DeleteEntryViewError, EntriesPage as _EntriesPage, Entry as _Entry, EntryAnalyticsBucket as _EntryAnalyticsBucket, EntryChange as _EntryChange, EntryColumn as _EntryColumn, EntryColumnSetting as _EntryColumnSetting, EntryCursor as _EntryCursor, EntryFilter as _EntryFilter, EntryInput as _EntryInput, EntryKind as _EntryKind, EntryRevision as _EntryRevision, EntrySort as _EntrySort, EntrySortField as _EntrySortField, EntryView as _EntryView, EntryViewInput as _EntryViewInput, ExternalBlob as _ExternalBlob, Payment as _Payment, PaymentError as _PaymentError, PaymentInput as _PaymentInput, PaymentMode as _PaymentMode, PaymentStatus as _PaymentStatus, SaveCategoryError as _SaveCategoryError, SaveCustomerError as _SaveCustomerError, SaveEntryViewError as _SaveEntryViewError, SearchEntriesResult as _SearchEntriesResult, Time as _Time, UpdateEntryError as _UpdateEntryError, UserProfile as _UserProfile, UserRole as _UserRole } from "./declarations/backend.did.d.ts";
 export class Backend implements backendInterface {
     constructor(private actor: ActorSubclass<_SERVICE>, private _uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, private _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, private processError?: (error: unknown) => never){}
     async _initializeAccessControlWithSecret(arg0: string): Promise<void> {
@@ -189,6 +544,34 @@ export class Backend implements backendInterface {
             return result;
         }
     }
+    async addAttachment(arg0: string, arg1: AttachmentInput): Promise<AttachmentError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.addAttachment(arg0, await to_candid_AttachmentInput_n78(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_opt_n80(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.addAttachment(arg0, await to_candid_AttachmentInput_n78(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_opt_n80(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async addPayment(arg0: string, arg1: PaymentInput): Promise<PaymentError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.addPayment(arg0, to_candid_PaymentInput_n60(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_opt_n64(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.addPayment(arg0, to_candid_PaymentInput_n60(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_opt_n64(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async assignCallerUserRole(arg0: Principal, arg1: UserRole): Promise<void> {
         if (this.processError) {
             try {
@@ -203,20 +586,62 @@ export class Backend implements backendInterface {
             return result;
         }
     }
+    async createEntries(arg0: Array<EntryInput>): Promise<Array<CreateEntryError | null>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.createEntries(to_candid_vec_n54(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_vec_n19(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.createEntries(to_candid_vec_n54(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_vec_n19(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async createEntry(arg0: EntryInput): Promise<CreateEntryError | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.createEntry(arg0);
+                const result = await this.actor.createEntry(to_candid_EntryInput_n50(this._uploadFile, this._downloadFile, arg0));
                 return from_candid_opt_n3(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createEntry(arg0);
+            const result = await this.actor.createEntry(to_candid_EntryInput_n50(this._uploadFile, this._downloadFile, arg0));
             return from_candid_opt_n3(this._uploadFile, this._downloadFile, result);
         }
     }
+    async deleteCategory(arg0: bigint): Promise<DeleteCategoryError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.deleteCategory(arg0);
+                return from_candid_opt_n75(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.deleteCategory(arg0);
+            return from_candid_opt_n75(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async deleteEntries(arg0: Array<string>): Promise<Array<DeleteEntryError | null>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.deleteEntries(arg0);
+                return from_candid_vec_n86(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.deleteEntries(arg0);
+            return from_candid_vec_n86(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async deleteEntry(arg0: string): Promise<DeleteEntryError | null> {
         if (this.processError) {
             try {
@@ -231,6 +656,20 @@ export class Backend implements backendInterface {
             return from_candid_opt_n6(this._uploadFile, this._downloadFile, result);
         }
     }
+    async deleteEntryView(arg0: bigint): Promise<DeleteEntryViewError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.deleteEntryView(arg0);
+                return from_candid_opt_n100(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.deleteEntryView(arg0);
+            return from_candid_opt_n100(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async getCallerUserProfile(): Promise<UserProfile | null> {
         if (this.processError) {
             try {
@@ -259,6 +698,76 @@ export class Backend implements backendInterface {
             return from_candid_UserRole_n10(this._uploadFile, this._downloadFile, result);
         }
     }
+    async getCustomer(arg0: string): Promise<Customer | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCustomer(arg0);
+                return from_candid_opt_n40(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCustomer(arg0);
+            return from_candid_opt_n40(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getEntryAnalytics(arg0: boolean): Promise<Array<EntryAnalyticsBucket>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getEntryAnalytics(arg0);
+                return from_candid_vec_n118(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getEntryAnalytics(arg0);
+            return from_candid_vec_n118(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getEntryColumnLayout(): Promise<Array<EntryColumnSetting>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getEntryColumnLayout();
+                return from_candid_vec_n95(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getEntryColumnLayout();
+            return from_candid_vec_n95(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getEntryHistory(arg0: string): Promise<Array<EntryRevision>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getEntryHistory(arg0);
+                return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getEntryHistory(arg0);
+            return from_candid_vec_n34(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getTrashRetentionDays(): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getTrashRetentionDays();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getTrashRetentionDays();
+            return result;
+        }
+    }
     async getUserProfile(arg0: Principal): Promise<UserProfile | null> {
         if (this.processError) {
             try {
@@ -287,46 +796,326 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async listEntriesNewestFirst(): Promise<Array<Entry>> {
+    async listAttachments(arg0: string): Promise<Array<Attachment>> {
         if (this.processError) {
             try {
-                const result = await this.actor.listEntriesNewestFirst();
-                return from_candid_vec_n12(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.listAttachments(arg0);
+                return await from_candid_vec_n83(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.listEntriesNewestFirst();
-            return from_candid_vec_n12(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.listAttachments(arg0);
+            return await from_candid_vec_n83(this._uploadFile, this._downloadFile, result);
         }
     }
-    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+    async listCategories(): Promise<Array<Category>> {
         if (this.processError) {
             try {
-                const result = await this.actor.saveCallerUserProfile(arg0);
+                const result = await this.actor.listCategories();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.saveCallerUserProfile(arg0);
+            const result = await this.actor.listCategories();
             return result;
         }
     }
-    async updateEntry(arg0: string, arg1: EntryInput): Promise<UpdateEntryError | null> {
+    async listCustomerEntries(arg0: string, arg1: boolean): Promise<Array<Entry>> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateEntry(arg0, arg1);
-                return from_candid_opt_n16(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.listCustomerEntries(arg0, arg1);
+                return from_candid_vec_n12(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateEntry(arg0, arg1);
-            return from_candid_opt_n16(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.listCustomerEntries(arg0, arg1);
+            return from_candid_vec_n12(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listCustomers(arg0: boolean): Promise<Array<CustomerSummary>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listCustomers(arg0);
+                return from_candid_vec_n41(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listCustomers(arg0);
+            return from_candid_vec_n41(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listEntriesNewestFirst(): Promise<Array<Entry>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listEntriesNewestFirst();
+                return from_candid_vec_n12(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listEntriesNewestFirst();
+            return from_candid_vec_n12(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listEntriesPage(arg0: EntryCursor | null, arg1: bigint, arg2: boolean): Promise<EntriesPage> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listEntriesPage(to_candid_opt_n20(this._uploadFile, this._downloadFile, arg0), arg1, arg2);
+                return from_candid_EntriesPage_n21(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listEntriesPage(to_candid_opt_n20(this._uploadFile, this._downloadFile, arg0), arg1, arg2);
+            return from_candid_EntriesPage_n21(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listEntryViews(): Promise<Array<EntryView>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listEntryViews();
+                return from_candid_vec_n103(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listEntryViews();
+            return from_candid_vec_n103(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listTags(): Promise<Array<string>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listTags();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listTags();
+            return result;
+        }
+    }
+    async listTrash(arg0: boolean): Promise<Array<Entry>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listTrash(arg0);
+                return from_candid_vec_n12(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listTrash(arg0);
+            return from_candid_vec_n12(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async purgeEntry(arg0: string): Promise<DeleteEntryError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.purgeEntry(arg0);
+                return from_candid_opt_n6(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.purgeEntry(arg0);
+            return from_candid_opt_n6(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async removeAttachment(arg0: string, arg1: bigint): Promise<AttachmentError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeAttachment(arg0, arg1);
+                return from_candid_opt_n80(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeAttachment(arg0, arg1);
+            return from_candid_opt_n80(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async removePayment(arg0: string, arg1: bigint): Promise<PaymentError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removePayment(arg0, arg1);
+                return from_candid_opt_n64(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removePayment(arg0, arg1);
+            return from_candid_opt_n64(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async restoreEntry(arg0: string): Promise<DeleteEntryError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.restoreEntry(arg0);
+                return from_candid_opt_n6(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.restoreEntry(arg0);
+            return from_candid_opt_n6(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveCallerUserProfile(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveCallerUserProfile(arg0);
+            return result;
+        }
+    }
+    async saveCategory(arg0: bigint | null, arg1: string): Promise<SaveCategoryError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveCategory(to_candid_opt_n71(this._uploadFile, this._downloadFile, arg0), arg1);
+                return from_candid_opt_n72(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveCategory(to_candid_opt_n71(this._uploadFile, this._downloadFile, arg0), arg1);
+            return from_candid_opt_n72(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async saveCustomer(arg0: CustomerInput): Promise<SaveCustomerError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveCustomer(arg0);
+                return from_candid_opt_n45(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveCustomer(arg0);
+            return from_candid_opt_n45(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async saveEntryColumnLayout(arg0: Array<EntryColumnSetting>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveEntryColumnLayout(to_candid_vec_n90(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveEntryColumnLayout(to_candid_vec_n90(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async saveEntryView(arg0: bigint | null, arg1: EntryViewInput): Promise<SaveEntryViewError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveEntryView(to_candid_opt_n71(this._uploadFile, this._downloadFile, arg0), to_candid_EntryViewInput_n113(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_opt_n115(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveEntryView(to_candid_opt_n71(this._uploadFile, this._downloadFile, arg0), to_candid_EntryViewInput_n113(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_opt_n115(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async searchEntries(arg0: EntryFilter, arg1: EntrySort, arg2: bigint, arg3: bigint, arg4: boolean): Promise<SearchEntriesResult> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.searchEntries(to_candid_EntryFilter_n24(this._uploadFile, this._downloadFile, arg0), to_candid_EntrySort_n26(this._uploadFile, this._downloadFile, arg1), arg2, arg3, arg4);
+                return from_candid_SearchEntriesResult_n30(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.searchEntries(to_candid_EntryFilter_n24(this._uploadFile, this._downloadFile, arg0), to_candid_EntrySort_n26(this._uploadFile, this._downloadFile, arg1), arg2, arg3, arg4);
+            return from_candid_SearchEntriesResult_n30(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setTrashRetentionDays(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setTrashRetentionDays(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setTrashRetentionDays(arg0);
+            return result;
+        }
+    }
+    async updateEntries(arg0: Array<string>, arg1: BulkEntryUpdate): Promise<Array<UpdateEntryError | null>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateEntries(arg0, to_candid_BulkEntryUpdate_n88(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_vec_n87(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateEntries(arg0, to_candid_BulkEntryUpdate_n88(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_vec_n87(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateEntry(arg0: string, arg1: EntryInput, arg2: bigint): Promise<UpdateEntryError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateEntry(arg0, to_candid_EntryInput_n50(this._uploadFile, this._downloadFile, arg1), arg2);
+                return from_candid_opt_n16(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateEntry(arg0, to_candid_EntryInput_n50(this._uploadFile, this._downloadFile, arg1), arg2);
+            return from_candid_opt_n16(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updatePayment(arg0: string, arg1: bigint, arg2: PaymentInput): Promise<PaymentError | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updatePayment(arg0, arg1, to_candid_PaymentInput_n60(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_opt_n64(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updatePayment(arg0, arg1, to_candid_PaymentInput_n60(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_opt_n64(this._uploadFile, this._downloadFile, result);
         }
     }
 }
@@ -361,32 +1150,80 @@ function from_candid_opt_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Ar
     return value.length === 0 ? null : value[0];
 }
 function from_candid_record_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status: _PaymentStatus;
+    notes: string;
+    categoryId: [] | [bigint];
+    tags: Array<string>;
+    kind: _EntryKind;
+    settledDate: [] | [string];
+    payments: Array<_Payment>;
     id: string;
+    receiptNumber: string;
     customerName: string;
     owner: [] | [Principal];
+    deletedAt: [] | [_Time];
+    deletedBy: [] | [Principal];
+    updatedAt: _Time;
+    version: bigint;
     createdAt: _Time;
     mobileNumber: string;
-    amountRs: bigint;
+    amountPaise: bigint;
     manualDate: string;
 }): {
+    status: PaymentStatus;
+    notes: string;
+    categoryId?: bigint;
+    tags: Array<string>;
+    kind: EntryKind;
+    settledDate?: string;
+    payments: Array<Payment>;
     id: string;
+    receiptNumber: string;
     customerName: string;
     owner?: Principal;
+    deletedAt?: Time;
+    deletedBy?: Principal;
+    updatedAt: Time;
+    version: bigint;
     createdAt: Time;
     mobileNumber: string;
-    amountRs: bigint;
+    amountPaise: bigint;
     manualDate: string;
 } {
     return {
+        status: from_candid_PaymentStatus_n48(_uploadFile, _downloadFile, value.status),
+        notes: value.notes,
+        categoryId: record_opt_to_undefined(from_candid_opt_n32(_uploadFile, _downloadFile, value.categoryId)),
+        tags: value.tags,
+        kind: from_candid_EntryKind_n67(_uploadFile, _downloadFile, value.kind),
+        settledDate: record_opt_to_undefined(from_candid_opt_n44(_uploadFile, _downloadFile, value.settledDate)),
+        payments: from_candid_vec_n55(_uploadFile, _downloadFile, value.payments),
         id: value.id,
+        receiptNumber: value.receiptNumber,
         customerName: value.customerName,
         owner: record_opt_to_undefined(from_candid_opt_n15(_uploadFile, _downloadFile, value.owner)),
+        deletedAt: record_opt_to_undefined(from_candid_opt_n33(_uploadFile, _downloadFile, value.deletedAt)),
+        deletedBy: record_opt_to_undefined(from_candid_opt_n15(_uploadFile, _downloadFile, value.deletedBy)),
+        updatedAt: value.updatedAt,
+        version: value.version,
         createdAt: value.createdAt,
         mobileNumber: value.mobileNumber,
-        amountRs: value.amountRs,
+        amountPaise: value.amountPaise,
         manualDate: value.manualDate
     };
 }
+function from_candid_record_n39(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    current: _Entry;
+    message: string;
+}): {
+    current: Entry;
+    message: string;
+} {
+    return {
+        current: from_candid_Entry_n13(_uploadFile, _downloadFile, value.current),
+        message: value.message
+    };
+}
 function from_candid_variant_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     admin: null;
 } | {
@@ -397,6 +1234,11 @@ function from_candid_variant_n11(_uploadFile: (file: ExternalBlob) => Promise<Ui
     return "admin" in value ? UserRole.admin : "user" in value ? UserRole.user : "guest" in value ? UserRole.guest : value;
 }
 function from_candid_variant_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    conflict: {
+        current: _Entry;
+        message: string;
+    };
+} | {
     emptyField: {
         field: string;
         message: string;
@@ -413,7 +1255,21 @@ function from_candid_variant_n18(_uploadFile: (file: ExternalBlob) => Promise<Ui
     invalidAmount: {
         message: string;
     };
+} | {
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    duplicateId: {
+        message: string;
+    };
 }): {
+    __kind__: "conflict";
+    conflict: {
+        current: Entry;
+        message: string;
+    };
+} | {
     __kind__: "emptyField";
     emptyField: {
         field: string;
@@ -434,8 +1290,21 @@ function from_candid_variant_n18(_uploadFile: (file: ExternalBlob) => Promise<Ui
     invalidAmount: {
         message: string;
     };
+} | {
+    __kind__: "invalidCategory";
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateId";
+    duplicateId: {
+        message: string;
+    };
 } {
-    return "emptyField" in value ? {
+    return "conflict" in value ? {
+        __kind__: "conflict",
+        conflict: from_candid_record_n39(_uploadFile, _downloadFile, value.conflict)
+    } : "emptyField" in value ? {
         __kind__: "emptyField",
         emptyField: value.emptyField
     } : "notFound" in value ? {
@@ -447,6 +1316,12 @@ function from_candid_variant_n18(_uploadFile: (file: ExternalBlob) => Promise<Ui
     } : "invalidAmount" in value ? {
         __kind__: "invalidAmount",
         invalidAmount: value.invalidAmount
+    } : "invalidCategory" in value ? {
+        __kind__: "invalidCategory",
+        invalidCategory: value.invalidCategory
+    } : "duplicateId" in value ? {
+        __kind__: "duplicateId",
+        duplicateId: value.duplicateId
     } : value;
 }
 function from_candid_variant_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
@@ -458,6 +1333,14 @@ function from_candid_variant_n5(_uploadFile: (file: ExternalBlob) => Promise<Uin
     invalidAmount: {
         message: string;
     };
+} | {
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    duplicateId: {
+        message: string;
+    };
 }): {
     __kind__: "emptyField";
     emptyField: {
@@ -469,6 +1352,16 @@ function from_candid_variant_n5(_uploadFile: (file: ExternalBlob) => Promise<Uin
     invalidAmount: {
         message: string;
     };
+} | {
+    __kind__: "invalidCategory";
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateId";
+    duplicateId: {
+        message: string;
+    };
 } {
     return "emptyField" in value ? {
         __kind__: "emptyField",
@@ -476,6 +1369,12 @@ function from_candid_variant_n5(_uploadFile: (file: ExternalBlob) => Promise<Uin
     } : "invalidAmount" in value ? {
         __kind__: "invalidAmount",
         invalidAmount: value.invalidAmount
+    } : "invalidCategory" in value ? {
+        __kind__: "invalidCategory",
+        invalidCategory: value.invalidCategory
+    } : "duplicateId" in value ? {
+        __kind__: "duplicateId",
+        duplicateId: value.duplicateId
     } : value;
 }
 function from_candid_variant_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
@@ -508,6 +1407,30 @@ function from_candid_variant_n8(_uploadFile: (file: ExternalBlob) => Promise<Uin
 function from_candid_vec_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Entry>): Array<Entry> {
     return value.map((x)=>from_candid_Entry_n13(_uploadFile, _downloadFile, x));
 }
+function from_candid_vec_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<[] | [_CreateEntryError]>): Array<CreateEntryError | null> {
+    return value.map((x)=>from_candid_opt_n3(_uploadFile, _downloadFile, x));
+}
+function from_candid_EntriesPage_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _EntriesPage): EntriesPage {
+    return from_candid_record_n22(_uploadFile, _downloadFile, value);
+}
+function from_candid_record_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    entries: Array<_Entry>;
+    nextCursor: [] | [_EntryCursor];
+}): {
+    entries: Array<Entry>;
+    nextCursor?: EntryCursor;
+} {
+    return {
+        entries: from_candid_vec_n12(_uploadFile, _downloadFile, value.entries),
+        nextCursor: record_opt_to_undefined(from_candid_opt_n23(_uploadFile, _downloadFile, value.nextCursor))
+    };
+}
+function from_candid_opt_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_EntryCursor]): EntryCursor | null {
+    return value.length === 0 ? null : value[0];
+}
+function to_candid_opt_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntryCursor | null): [] | [_EntryCursor] {
+    return value === null ? candid_none() : candid_some(value);
+}
 function to_candid_UserRole_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
     return to_candid_variant_n2(_uploadFile, _downloadFile, value);
 }
@@ -526,6 +1449,1051 @@ function to_candid_variant_n2(_uploadFile: (file: ExternalBlob) => Promise<Uint8
         guest: null
     } : value;
 }
+function to_candid_EntryFilter_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntryFilter): _EntryFilter {
+    return to_candid_record_n25(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status?: PaymentStatus;
+    notes?: string;
+    categoryId?: bigint;
+    tag?: string;
+    minDays?: bigint;
+    maxDays?: bigint;
+    searchText?: string;
+    mobilePrefix?: string;
+    customerName?: string;
+    toDate?: string;
+    maxAmount?: bigint;
+    minAmount?: bigint;
+    fromDate?: string;
+}): {
+    status: [] | [_PaymentStatus];
+    notes: [] | [string];
+    categoryId: [] | [bigint];
+    tag: [] | [string];
+    minDays: [] | [bigint];
+    maxDays: [] | [bigint];
+    searchText: [] | [string];
+    mobilePrefix: [] | [string];
+    customerName: [] | [string];
+    toDate: [] | [string];
+    maxAmount: [] | [bigint];
+    minAmount: [] | [bigint];
+    fromDate: [] | [string];
+} {
+    return {
+        status: value.status ? candid_some(to_candid_PaymentStatus_n52(_uploadFile, _downloadFile, value.status)) : candid_none(),
+        notes: value.notes ? candid_some(value.notes) : candid_none(),
+        categoryId: value.categoryId ? candid_some(value.categoryId) : candid_none(),
+        tag: value.tag ? candid_some(value.tag) : candid_none(),
+        minDays: value.minDays !== undefined ? candid_some(value.minDays) : candid_none(),
+        maxDays: value.maxDays !== undefined ? candid_some(value.maxDays) : candid_none(),
+        searchText: value.searchText ? candid_some(value.searchText) : candid_none(),
+        mobilePrefix: value.mobilePrefix ? candid_some(value.mobilePrefix) : candid_none(),
+        customerName: value.customerName ? candid_some(value.customerName) : candid_none(),
+        toDate: value.toDate ? candid_some(value.toDate) : candid_none(),
+        maxAmount: value.maxAmount ? candid_some(value.maxAmount) : candid_none(),
+        minAmount: value.minAmount ? candid_some(value.minAmount) : candid_none(),
+        fromDate: value.fromDate ? candid_some(value.fromDate) : candid_none()
+    };
+}
+function to_candid_EntrySort_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntrySort): _EntrySort {
+    return to_candid_record_n27(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    field: EntrySortField;
+    descending: boolean;
+}): {
+    field: _EntrySortField;
+    descending: boolean;
+} {
+    return {
+        field: to_candid_EntrySortField_n28(_uploadFile, _downloadFile, value.field),
+        descending: value.descending
+    };
+}
+function to_candid_EntrySortField_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntrySortField): _EntrySortField {
+    return to_candid_variant_n29(_uploadFile, _downloadFile, value);
+}
+function to_candid_variant_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntrySortField): {
+    customerName: null;
+} | {
+    createdAt: null;
+} | {
+    manualDate: null;
+} | {
+    amount: null;
+} | {
+    days: null;
+} {
+    return value == EntrySortField.customerName ? {
+        customerName: null
+    } : value == EntrySortField.createdAt ? {
+        createdAt: null
+    } : value == EntrySortField.manualDate ? {
+        manualDate: null
+    } : value == EntrySortField.amount ? {
+        amount: null
+    } : value == EntrySortField.days ? {
+        days: null
+    } : value;
+}
+function from_candid_SearchEntriesResult_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SearchEntriesResult): SearchEntriesResult {
+    return from_candid_record_n31(_uploadFile, _downloadFile, value);
+}
+function from_candid_record_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    entries: Array<_Entry>;
+    nextOffset: [] | [bigint];
+    totalCount: bigint;
+}): {
+    entries: Array<Entry>;
+    nextOffset?: bigint;
+    totalCount: bigint;
+} {
+    return {
+        entries: from_candid_vec_n12(_uploadFile, _downloadFile, value.entries),
+        nextOffset: record_opt_to_undefined(from_candid_opt_n32(_uploadFile, _downloadFile, value.nextOffset)),
+        totalCount: value.totalCount
+    };
+}
+function from_candid_opt_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Time]): Time | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_vec_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_EntryRevision>): Array<EntryRevision> {
+    return value.map((x)=>from_candid_EntryRevision_n35(_uploadFile, _downloadFile, x));
+}
+function from_candid_EntryRevision_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _EntryRevision): EntryRevision {
+    return from_candid_record_n36(_uploadFile, _downloadFile, value);
+}
+function from_candid_record_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status: _PaymentStatus;
+    notes: string;
+    categoryId: [] | [bigint];
+    tags: Array<string>;
+    kind: _EntryKind;
+    settledDate: [] | [string];
+    customerName: string;
+    changedAt: _Time;
+    changedBy: [] | [Principal];
+    change: _EntryChange;
+    mobileNumber: string;
+    paidPaise: bigint;
+    amountPaise: bigint;
+    manualDate: string;
+}): {
+    status: PaymentStatus;
+    notes: string;
+    categoryId?: bigint;
+    tags: Array<string>;
+    kind: EntryKind;
+    settledDate?: string;
+    customerName: string;
+    changedAt: Time;
+    changedBy?: Principal;
+    change: EntryChange;
+    mobileNumber: string;
+    paidPaise: bigint;
+    amountPaise: bigint;
+    manualDate: string;
+} {
+    return {
+        status: from_candid_PaymentStatus_n48(_uploadFile, _downloadFile, value.status),
+        notes: value.notes,
+        categoryId: record_opt_to_undefined(from_candid_opt_n32(_uploadFile, _downloadFile, value.categoryId)),
+        tags: value.tags,
+        kind: from_candid_EntryKind_n67(_uploadFile, _downloadFile, value.kind),
+        settledDate: record_opt_to_undefined(from_candid_opt_n44(_uploadFile, _downloadFile, value.settledDate)),
+        customerName: value.customerName,
+        changedAt: value.changedAt,
+        changedBy: record_opt_to_undefined(from_candid_opt_n15(_uploadFile, _downloadFile, value.changedBy)),
+        change: from_candid_EntryChange_n37(_uploadFile, _downloadFile, value.change),
+        mobileNumber: value.mobileNumber,
+        paidPaise: value.paidPaise,
+        amountPaise: value.amountPaise,
+        manualDate: value.manualDate
+    };
+}
+function from_candid_EntryChange_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _EntryChange): EntryChange {
+    return from_candid_variant_n38(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    created: null;
+} | {
+    deleted: null;
+} | {
+    restored: null;
+} | {
+    updated: null;
+}): EntryChange {
+    return "created" in value ? EntryChange.created : "deleted" in value ? EntryChange.deleted : "restored" in value ? EntryChange.restored : "updated" in value ? EntryChange.updated : value;
+}
+function from_candid_opt_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Customer]): Customer | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_vec_n41(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_CustomerSummary>): Array<CustomerSummary> {
+    return value.map((x)=>from_candid_CustomerSummary_n42(_uploadFile, _downloadFile, x));
+}
+function from_candid_CustomerSummary_n42(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CustomerSummary): CustomerSummary {
+    return from_candid_record_n43(_uploadFile, _downloadFile, value);
+}
+function from_candid_record_n43(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    lastTransactionDate: [] | [string];
+    owner: Principal;
+    customer: _Customer;
+    entryCount: bigint;
+    balancePaise: bigint;
+}): {
+    lastTransactionDate?: string;
+    owner: Principal;
+    customer: Customer;
+    entryCount: bigint;
+    balancePaise: bigint;
+} {
+    return {
+        lastTransactionDate: record_opt_to_undefined(from_candid_opt_n44(_uploadFile, _downloadFile, value.lastTransactionDate)),
+        owner: value.owner,
+        customer: value.customer,
+        entryCount: value.entryCount,
+        balancePaise: value.balancePaise
+    };
+}
+function from_candid_opt_n44(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n45(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_SaveCustomerError]): SaveCustomerError | null {
+    return value.length === 0 ? null : from_candid_SaveCustomerError_n46(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_SaveCustomerError_n46(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SaveCustomerError): SaveCustomerError {
+    return from_candid_variant_n47(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n47(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    emptyField: {
+        field: string;
+        message: string;
+    };
+}): {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} {
+    return "emptyField" in value ? {
+        __kind__: "emptyField",
+        emptyField: value.emptyField
+    } : value;
+}
+function from_candid_PaymentStatus_n48(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PaymentStatus): PaymentStatus {
+    return from_candid_variant_n49(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n49(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    paid: null;
+} | {
+    pending: null;
+} | {
+    writtenOff: null;
+} | {
+    partiallyPaid: null;
+}): PaymentStatus {
+    return "paid" in value ? PaymentStatus.paid : "pending" in value ? PaymentStatus.pending : "writtenOff" in value ? PaymentStatus.writtenOff : "partiallyPaid" in value ? PaymentStatus.partiallyPaid : value;
+}
+function to_candid_EntryInput_n50(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntryInput): _EntryInput {
+    return to_candid_record_n51(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n51(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status?: PaymentStatus;
+    notes: string;
+    categoryId?: bigint;
+    tags: Array<string>;
+    kind?: EntryKind;
+    settledDate?: string;
+    id?: string;
+    customerName: string;
+    mobileNumber: string;
+    amountPaise: bigint;
+    manualDate: string;
+}): {
+    status: [] | [_PaymentStatus];
+    notes: string;
+    categoryId: [] | [bigint];
+    tags: Array<string>;
+    kind: [] | [_EntryKind];
+    settledDate: [] | [string];
+    id: [] | [string];
+    customerName: string;
+    mobileNumber: string;
+    amountPaise: bigint;
+    manualDate: string;
+} {
+    return {
+        status: value.status ? candid_some(to_candid_PaymentStatus_n52(_uploadFile, _downloadFile, value.status)) : candid_none(),
+        notes: value.notes,
+        categoryId: value.categoryId ? candid_some(value.categoryId) : candid_none(),
+        tags: value.tags,
+        kind: value.kind ? candid_some(to_candid_EntryKind_n69(_uploadFile, _downloadFile, value.kind)) : candid_none(),
+        settledDate: value.settledDate ? candid_some(value.settledDate) : candid_none(),
+        id: value.id ? candid_some(value.id) : candid_none(),
+        customerName: value.customerName,
+        mobileNumber: value.mobileNumber,
+        amountPaise: value.amountPaise,
+        manualDate: value.manualDate
+    };
+}
+function to_candid_PaymentStatus_n52(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PaymentStatus): _PaymentStatus {
+    return to_candid_variant_n53(_uploadFile, _downloadFile, value);
+}
+function to_candid_variant_n53(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PaymentStatus): {
+    paid: null;
+} | {
+    pending: null;
+} | {
+    writtenOff: null;
+} | {
+    partiallyPaid: null;
+} {
+    return value == PaymentStatus.paid ? {
+        paid: null
+    } : value == PaymentStatus.pending ? {
+        pending: null
+    } : value == PaymentStatus.writtenOff ? {
+        writtenOff: null
+    } : value == PaymentStatus.partiallyPaid ? {
+        partiallyPaid: null
+    } : value;
+}
+function to_candid_vec_n54(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<EntryInput>): Array<_EntryInput> {
+    return value.map((x)=>to_candid_EntryInput_n50(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n55(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Payment>): Array<Payment> {
+    return value.map((x)=>from_candid_Payment_n56(_uploadFile, _downloadFile, x));
+}
+function from_candid_Payment_n56(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Payment): Payment {
+    return from_candid_record_n57(_uploadFile, _downloadFile, value);
+}
+function from_candid_record_n57(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    date: string;
+    mode: _PaymentMode;
+    recordedAt: _Time;
+    recordedBy: [] | [Principal];
+    amountPaise: bigint;
+}): {
+    id: bigint;
+    date: string;
+    mode: PaymentMode;
+    recordedAt: Time;
+    recordedBy?: Principal;
+    amountPaise: bigint;
+} {
+    return {
+        id: value.id,
+        date: value.date,
+        mode: from_candid_PaymentMode_n58(_uploadFile, _downloadFile, value.mode),
+        recordedAt: value.recordedAt,
+        recordedBy: record_opt_to_undefined(from_candid_opt_n15(_uploadFile, _downloadFile, value.recordedBy)),
+        amountPaise: value.amountPaise
+    };
+}
+function from_candid_PaymentMode_n58(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PaymentMode): PaymentMode {
+    return from_candid_variant_n59(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n59(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    upi: null;
+} | {
+    other: null;
+} | {
+    cash: null;
+} | {
+    cheque: null;
+} | {
+    bankTransfer: null;
+}): PaymentMode {
+    return "upi" in value ? PaymentMode.upi : "other" in value ? PaymentMode.other : "cash" in value ? PaymentMode.cash : "cheque" in value ? PaymentMode.cheque : "bankTransfer" in value ? PaymentMode.bankTransfer : value;
+}
+function to_candid_PaymentInput_n60(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PaymentInput): _PaymentInput {
+    return to_candid_record_n61(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n61(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    date: string;
+    mode: PaymentMode;
+    amountPaise: bigint;
+}): {
+    date: string;
+    mode: _PaymentMode;
+    amountPaise: bigint;
+} {
+    return {
+        date: value.date,
+        mode: to_candid_PaymentMode_n62(_uploadFile, _downloadFile, value.mode),
+        amountPaise: value.amountPaise
+    };
+}
+function to_candid_PaymentMode_n62(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PaymentMode): _PaymentMode {
+    return to_candid_variant_n63(_uploadFile, _downloadFile, value);
+}
+function to_candid_variant_n63(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PaymentMode): {
+    upi: null;
+} | {
+    other: null;
+} | {
+    cash: null;
+} | {
+    cheque: null;
+} | {
+    bankTransfer: null;
+} {
+    return value == PaymentMode.upi ? {
+        upi: null
+    } : value == PaymentMode.other ? {
+        other: null
+    } : value == PaymentMode.cash ? {
+        cash: null
+    } : value == PaymentMode.cheque ? {
+        cheque: null
+    } : value == PaymentMode.bankTransfer ? {
+        bankTransfer: null
+    } : value;
+}
+function from_candid_opt_n64(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_PaymentError]): PaymentError | null {
+    return value.length === 0 ? null : from_candid_PaymentError_n65(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_PaymentError_n65(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PaymentError): PaymentError {
+    return from_candid_variant_n66(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n66(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    notFound: {
+        message: string;
+    };
+} | {
+    unauthorized: {
+        message: string;
+    };
+} | {
+    invalidAmount: {
+        message: string;
+    };
+} | {
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    duplicateId: {
+        message: string;
+    };
+}): {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "unauthorized";
+    unauthorized: {
+        message: string;
+    };
+} | {
+    __kind__: "invalidAmount";
+    invalidAmount: {
+        message: string;
+    };
+} | {
+    __kind__: "invalidCategory";
+    invalidCategory: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateId";
+    duplicateId: {
+        message: string;
+    };
+} {
+    return "emptyField" in value ? {
+        __kind__: "emptyField",
+        emptyField: value.emptyField
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : "invalidAmount" in value ? {
+        __kind__: "invalidAmount",
+        invalidAmount: value.invalidAmount
+    } : "invalidCategory" in value ? {
+        __kind__: "invalidCategory",
+        invalidCategory: value.invalidCategory
+    } : "duplicateId" in value ? {
+        __kind__: "duplicateId",
+        duplicateId: value.duplicateId
+    } : value;
+}
+function from_candid_EntryKind_n67(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _EntryKind): EntryKind {
+    return from_candid_variant_n68(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n68(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    credit: null;
+} | {
+    debit: null;
+}): EntryKind {
+    return "credit" in value ? EntryKind.credit : "debit" in value ? EntryKind.debit : value;
+}
+function to_candid_EntryKind_n69(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntryKind): _EntryKind {
+    return to_candid_variant_n70(_uploadFile, _downloadFile, value);
+}
+function to_candid_variant_n70(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntryKind): {
+    credit: null;
+} | {
+    debit: null;
+} {
+    return value == EntryKind.credit ? {
+        credit: null
+    } : value == EntryKind.debit ? {
+        debit: null
+    } : value;
+}
+function to_candid_opt_n71(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: bigint | null): [] | [bigint] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function from_candid_opt_n72(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_SaveCategoryError]): SaveCategoryError | null {
+    return value.length === 0 ? null : from_candid_SaveCategoryError_n73(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_SaveCategoryError_n73(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SaveCategoryError): SaveCategoryError {
+    return from_candid_variant_n74(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n74(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    notFound: {
+        message: string;
+    };
+} | {
+    duplicateName: {
+        message: string;
+    };
+}): {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateName";
+    duplicateName: {
+        message: string;
+    };
+} {
+    return "emptyField" in value ? {
+        __kind__: "emptyField",
+        emptyField: value.emptyField
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "duplicateName" in value ? {
+        __kind__: "duplicateName",
+        duplicateName: value.duplicateName
+    } : value;
+}
+function from_candid_opt_n75(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_DeleteCategoryError]): DeleteCategoryError | null {
+    return value.length === 0 ? null : from_candid_DeleteCategoryError_n76(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_DeleteCategoryError_n76(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DeleteCategoryError): DeleteCategoryError {
+    return from_candid_variant_n77(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n77(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    notFound: {
+        message: string;
+    };
+} | {
+    inUse: {
+        message: string;
+    };
+}): {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "inUse";
+    inUse: {
+        message: string;
+    };
+} {
+    return "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "inUse" in value ? {
+        __kind__: "inUse",
+        inUse: value.inUse
+    } : value;
+}
+async function to_candid_AttachmentInput_n78(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AttachmentInput): Promise<_AttachmentInput> {
+    return await to_candid_record_n79(_uploadFile, _downloadFile, value);
+}
+async function to_candid_record_n79(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    contentType: string;
+    blob: ExternalBlob;
+    fileName: string;
+    sizeBytes: bigint;
+}): Promise<{
+    contentType: string;
+    blob: _ExternalBlob;
+    fileName: string;
+    sizeBytes: bigint;
+}> {
+    return {
+        contentType: value.contentType,
+        blob: await _uploadFile(value.blob),
+        fileName: value.fileName,
+        sizeBytes: value.sizeBytes
+    };
+}
+function from_candid_opt_n80(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_AttachmentError]): AttachmentError | null {
+    return value.length === 0 ? null : from_candid_AttachmentError_n81(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_AttachmentError_n81(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AttachmentError): AttachmentError {
+    return from_candid_variant_n82(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n82(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    notFound: {
+        message: string;
+    };
+} | {
+    invalidFile: {
+        message: string;
+    };
+} | {
+    unauthorized: {
+        message: string;
+    };
+}): {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "invalidFile";
+    invalidFile: {
+        message: string;
+    };
+} | {
+    __kind__: "unauthorized";
+    unauthorized: {
+        message: string;
+    };
+} {
+    return "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "invalidFile" in value ? {
+        __kind__: "invalidFile",
+        invalidFile: value.invalidFile
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : value;
+}
+async function from_candid_vec_n83(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Attachment>): Promise<Array<Attachment>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_Attachment_n84(_uploadFile, _downloadFile, x)));
+}
+async function from_candid_Attachment_n84(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Attachment): Promise<Attachment> {
+    return await from_candid_record_n85(_uploadFile, _downloadFile, value);
+}
+async function from_candid_record_n85(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    contentType: string;
+    blob: _ExternalBlob;
+    fileName: string;
+    sizeBytes: bigint;
+    uploadedAt: _Time;
+    uploadedBy: [] | [Principal];
+}): Promise<{
+    id: bigint;
+    contentType: string;
+    blob: ExternalBlob;
+    fileName: string;
+    sizeBytes: bigint;
+    uploadedAt: Time;
+    uploadedBy?: Principal;
+}> {
+    return {
+        id: value.id,
+        contentType: value.contentType,
+        blob: await _downloadFile(value.blob),
+        fileName: value.fileName,
+        sizeBytes: value.sizeBytes,
+        uploadedAt: value.uploadedAt,
+        uploadedBy: record_opt_to_undefined(from_candid_opt_n15(_uploadFile, _downloadFile, value.uploadedBy))
+    };
+}
+function from_candid_vec_n86(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<[] | [_DeleteEntryError]>): Array<DeleteEntryError | null> {
+    return value.map((x)=>from_candid_opt_n6(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n87(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<[] | [_UpdateEntryError]>): Array<UpdateEntryError | null> {
+    return value.map((x)=>from_candid_opt_n16(_uploadFile, _downloadFile, x));
+}
+function to_candid_BulkEntryUpdate_n88(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: BulkEntryUpdate): _BulkEntryUpdate {
+    return to_candid_record_n89(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n89(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status?: PaymentStatus;
+    settledDate?: string;
+    manualDate?: string;
+}): {
+    status: [] | [_PaymentStatus];
+    settledDate: [] | [string];
+    manualDate: [] | [string];
+} {
+    return {
+        status: value.status ? candid_some(to_candid_PaymentStatus_n52(_uploadFile, _downloadFile, value.status)) : candid_none(),
+        settledDate: value.settledDate ? candid_some(value.settledDate) : candid_none(),
+        manualDate: value.manualDate ? candid_some(value.manualDate) : candid_none()
+    };
+}
+function to_candid_vec_n90(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<EntryColumnSetting>): Array<_EntryColumnSetting> {
+    return value.map((x)=>to_candid_EntryColumnSetting_n91(_uploadFile, _downloadFile, x));
+}
+function to_candid_EntryColumnSetting_n91(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntryColumnSetting): _EntryColumnSetting {
+    return to_candid_record_n92(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n92(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    column: EntryColumn;
+    visible: boolean;
+}): {
+    column: _EntryColumn;
+    visible: boolean;
+} {
+    return {
+        column: to_candid_EntryColumn_n93(_uploadFile, _downloadFile, value.column),
+        visible: value.visible
+    };
+}
+function to_candid_EntryColumn_n93(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntryColumn): _EntryColumn {
+    return to_candid_variant_n94(_uploadFile, _downloadFile, value);
+}
+function to_candid_variant_n94(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntryColumn): {
+    customerName: null;
+} | {
+    createdAt: null;
+} | {
+    mobileNumber: null;
+} | {
+    manualDate: null;
+} | {
+    amount: null;
+} | {
+    days: null;
+} {
+    return value == EntryColumn.customerName ? {
+        customerName: null
+    } : value == EntryColumn.createdAt ? {
+        createdAt: null
+    } : value == EntryColumn.mobileNumber ? {
+        mobileNumber: null
+    } : value == EntryColumn.manualDate ? {
+        manualDate: null
+    } : value == EntryColumn.amount ? {
+        amount: null
+    } : value == EntryColumn.days ? {
+        days: null
+    } : value;
+}
+function from_candid_vec_n95(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_EntryColumnSetting>): Array<EntryColumnSetting> {
+    return value.map((x)=>from_candid_EntryColumnSetting_n96(_uploadFile, _downloadFile, x));
+}
+function from_candid_EntryColumnSetting_n96(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _EntryColumnSetting): EntryColumnSetting {
+    return from_candid_record_n97(_uploadFile, _downloadFile, value);
+}
+function from_candid_record_n97(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    column: _EntryColumn;
+    visible: boolean;
+}): {
+    column: EntryColumn;
+    visible: boolean;
+} {
+    return {
+        column: from_candid_EntryColumn_n98(_uploadFile, _downloadFile, value.column),
+        visible: value.visible
+    };
+}
+function from_candid_EntryColumn_n98(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _EntryColumn): EntryColumn {
+    return from_candid_variant_n99(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n99(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    customerName: null;
+} | {
+    createdAt: null;
+} | {
+    mobileNumber: null;
+} | {
+    manualDate: null;
+} | {
+    amount: null;
+} | {
+    days: null;
+}): EntryColumn {
+    return "customerName" in value ? EntryColumn.customerName : "createdAt" in value ? EntryColumn.createdAt : "mobileNumber" in value ? EntryColumn.mobileNumber : "manualDate" in value ? EntryColumn.manualDate : "amount" in value ? EntryColumn.amount : "days" in value ? EntryColumn.days : value;
+}
+function from_candid_opt_n100(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_DeleteEntryViewError]): DeleteEntryViewError | null {
+    return value.length === 0 ? null : from_candid_DeleteEntryViewError_n101(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_DeleteEntryViewError_n101(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DeleteEntryViewError): DeleteEntryViewError {
+    return from_candid_variant_n102(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n102(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    notFound: {
+        message: string;
+    };
+}): {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} {
+    return "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : value;
+}
+function from_candid_vec_n103(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_EntryView>): Array<EntryView> {
+    return value.map((x)=>from_candid_EntryView_n104(_uploadFile, _downloadFile, x));
+}
+function from_candid_EntryView_n104(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _EntryView): EntryView {
+    return from_candid_record_n105(_uploadFile, _downloadFile, value);
+}
+function from_candid_record_n105(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    columns: Array<_EntryColumnSetting>;
+    name: string;
+    sort: _EntrySort;
+    filter: _EntryFilter;
+}): {
+    id: bigint;
+    columns: Array<EntryColumnSetting>;
+    name: string;
+    sort: EntrySort;
+    filter: EntryFilter;
+} {
+    return {
+        id: value.id,
+        columns: from_candid_vec_n95(_uploadFile, _downloadFile, value.columns),
+        name: value.name,
+        sort: from_candid_EntrySort_n106(_uploadFile, _downloadFile, value.sort),
+        filter: from_candid_EntryFilter_n110(_uploadFile, _downloadFile, value.filter)
+    };
+}
+function from_candid_EntrySort_n106(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _EntrySort): EntrySort {
+    return from_candid_record_n107(_uploadFile, _downloadFile, value);
+}
+function from_candid_record_n107(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    field: _EntrySortField;
+    descending: boolean;
+}): {
+    field: EntrySortField;
+    descending: boolean;
+} {
+    return {
+        field: from_candid_EntrySortField_n108(_uploadFile, _downloadFile, value.field),
+        descending: value.descending
+    };
+}
+function from_candid_EntrySortField_n108(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _EntrySortField): EntrySortField {
+    return from_candid_variant_n109(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n109(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    customerName: null;
+} | {
+    createdAt: null;
+} | {
+    manualDate: null;
+} | {
+    amount: null;
+} | {
+    days: null;
+}): EntrySortField {
+    return "customerName" in value ? EntrySortField.customerName : "createdAt" in value ? EntrySortField.createdAt : "manualDate" in value ? EntrySortField.manualDate : "amount" in value ? EntrySortField.amount : "days" in value ? EntrySortField.days : value;
+}
+function from_candid_EntryFilter_n110(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _EntryFilter): EntryFilter {
+    return from_candid_record_n111(_uploadFile, _downloadFile, value);
+}
+function from_candid_record_n111(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status: [] | [_PaymentStatus];
+    notes: [] | [string];
+    categoryId: [] | [bigint];
+    tag: [] | [string];
+    minDays: [] | [bigint];
+    maxDays: [] | [bigint];
+    searchText: [] | [string];
+    mobilePrefix: [] | [string];
+    customerName: [] | [string];
+    toDate: [] | [string];
+    maxAmount: [] | [bigint];
+    minAmount: [] | [bigint];
+    fromDate: [] | [string];
+}): {
+    status?: PaymentStatus;
+    notes?: string;
+    categoryId?: bigint;
+    tag?: string;
+    minDays?: bigint;
+    maxDays?: bigint;
+    searchText?: string;
+    mobilePrefix?: string;
+    customerName?: string;
+    toDate?: string;
+    maxAmount?: bigint;
+    minAmount?: bigint;
+    fromDate?: string;
+} {
+    return {
+        status: record_opt_to_undefined(from_candid_opt_n112(_uploadFile, _downloadFile, value.status)),
+        notes: record_opt_to_undefined(from_candid_opt_n44(_uploadFile, _downloadFile, value.notes)),
+        categoryId: record_opt_to_undefined(from_candid_opt_n32(_uploadFile, _downloadFile, value.categoryId)),
+        tag: record_opt_to_undefined(from_candid_opt_n44(_uploadFile, _downloadFile, value.tag)),
+        minDays: record_opt_to_undefined(from_candid_opt_n32(_uploadFile, _downloadFile, value.minDays)),
+        maxDays: record_opt_to_undefined(from_candid_opt_n32(_uploadFile, _downloadFile, value.maxDays)),
+        searchText: record_opt_to_undefined(from_candid_opt_n44(_uploadFile, _downloadFile, value.searchText)),
+        mobilePrefix: record_opt_to_undefined(from_candid_opt_n44(_uploadFile, _downloadFile, value.mobilePrefix)),
+        customerName: record_opt_to_undefined(from_candid_opt_n44(_uploadFile, _downloadFile, value.customerName)),
+        toDate: record_opt_to_undefined(from_candid_opt_n44(_uploadFile, _downloadFile, value.toDate)),
+        maxAmount: record_opt_to_undefined(from_candid_opt_n32(_uploadFile, _downloadFile, value.maxAmount)),
+        minAmount: record_opt_to_undefined(from_candid_opt_n32(_uploadFile, _downloadFile, value.minAmount)),
+        fromDate: record_opt_to_undefined(from_candid_opt_n44(_uploadFile, _downloadFile, value.fromDate))
+    };
+}
+function from_candid_opt_n112(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_PaymentStatus]): PaymentStatus | null {
+    return value.length === 0 ? null : from_candid_PaymentStatus_n48(_uploadFile, _downloadFile, value[0]);
+}
+function to_candid_EntryViewInput_n113(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: EntryViewInput): _EntryViewInput {
+    return to_candid_record_n114(_uploadFile, _downloadFile, value);
+}
+function to_candid_record_n114(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    columns: Array<EntryColumnSetting>;
+    name: string;
+    sort: EntrySort;
+    filter: EntryFilter;
+}): {
+    columns: Array<_EntryColumnSetting>;
+    name: string;
+    sort: _EntrySort;
+    filter: _EntryFilter;
+} {
+    return {
+        columns: to_candid_vec_n90(_uploadFile, _downloadFile, value.columns),
+        name: value.name,
+        sort: to_candid_EntrySort_n26(_uploadFile, _downloadFile, value.sort),
+        filter: to_candid_EntryFilter_n24(_uploadFile, _downloadFile, value.filter)
+    };
+}
+function from_candid_opt_n115(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_SaveEntryViewError]): SaveEntryViewError | null {
+    return value.length === 0 ? null : from_candid_SaveEntryViewError_n116(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_SaveEntryViewError_n116(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SaveEntryViewError): SaveEntryViewError {
+    return from_candid_variant_n117(_uploadFile, _downloadFile, value);
+}
+function from_candid_variant_n117(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    notFound: {
+        message: string;
+    };
+} | {
+    tooMany: {
+        message: string;
+    };
+} | {
+    duplicateName: {
+        message: string;
+    };
+}): {
+    __kind__: "emptyField";
+    emptyField: {
+        field: string;
+        message: string;
+    };
+} | {
+    __kind__: "notFound";
+    notFound: {
+        message: string;
+    };
+} | {
+    __kind__: "tooMany";
+    tooMany: {
+        message: string;
+    };
+} | {
+    __kind__: "duplicateName";
+    duplicateName: {
+        message: string;
+    };
+} {
+    return "emptyField" in value ? {
+        __kind__: "emptyField",
+        emptyField: value.emptyField
+    } : "notFound" in value ? {
+        __kind__: "notFound",
+        notFound: value.notFound
+    } : "tooMany" in value ? {
+        __kind__: "tooMany",
+        tooMany: value.tooMany
+    } : "duplicateName" in value ? {
+        __kind__: "duplicateName",
+        duplicateName: value.duplicateName
+    } : value;
+}
+function from_candid_vec_n118(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_EntryAnalyticsBucket>): Array<EntryAnalyticsBucket> {
+    return value.map((x)=>from_candid_EntryAnalyticsBucket_n119(_uploadFile, _downloadFile, x));
+}
+function from_candid_EntryAnalyticsBucket_n119(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _EntryAnalyticsBucket): EntryAnalyticsBucket {
+    return from_candid_record_n120(_uploadFile, _downloadFile, value);
+}
+function from_candid_record_n120(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    month: bigint;
+    year: bigint;
+    count: bigint;
+    categoryId: [] | [bigint];
+    creditPaise: bigint;
+    debitPaise: bigint;
+}): {
+    month: bigint;
+    year: bigint;
+    count: bigint;
+    categoryId?: bigint;
+    creditPaise: bigint;
+    debitPaise: bigint;
+} {
+    return {
+        month: value.month,
+        year: value.year,
+        count: value.count,
+        categoryId: record_opt_to_undefined(from_candid_opt_n32(_uploadFile, _downloadFile, value.categoryId)),
+        creditPaise: value.creditPaise,
+        debitPaise: value.debitPaise
+    };
+}
 export interface CreateActorOptions {
     agent?: Agent;
     agentOptions?: HttpAgentOptions;
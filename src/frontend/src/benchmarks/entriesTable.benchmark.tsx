@@ -0,0 +1,80 @@
+import { renderToString } from 'react-dom/server';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createMemoryHistory, createRootRoute, createRouter, RouterProvider } from '@tanstack/react-router';
+import { EntryKind, EntrySortField, PaymentStatus, type Entry } from '../backend';
+import { EntriesTable } from '../components/EntriesTable';
+import { InternetIdentityProvider } from '../hooks/useInternetIdentity';
+import { checkAgainstBudget, type BudgetMeasurement } from '../utils/performanceBudget';
+
+const CUSTOMER_NAMES = ['Ramesh Kumar', 'Sunita Sharma', 'Abdul Rahman', 'Priya Nair', 'Gurpreet Singh'];
+const PAYMENT_STATUSES = [PaymentStatus.pending, PaymentStatus.partiallyPaid, PaymentStatus.paid];
+
+/**
+ * Entries shaped like a busy ledger: a spread of customers, dates, kinds,
+ * statuses and tags, so every column has something to render.
+ */
+export function generateEntries(count: number): Entry[] {
+  const entries: Entry[] = [];
+  const baseTime = BigInt(Date.UTC(2024, 3, 1)) * 1_000_000n;
+  for (let i = 0; i < count; i++) {
+    const date = new Date(Date.UTC(2024, 3, 1) + (i % 365) * 86_400_000);
+    const status = PAYMENT_STATUSES[i % PAYMENT_STATUSES.length];
+    entries.push({
+      id: `entry-${i}`,
+      receiptNumber: `2024-25/${String(i + 1).padStart(5, '0')}`,
+      manualDate: date.toISOString().slice(0, 10),
+      customerName: CUSTOMER_NAMES[i % CUSTOMER_NAMES.length],
+      mobileNumber: `98${String(10_000_000 + i).padStart(8, '0')}`,
+      amountPaise: BigInt(((i * 7919) % 500_000) + 100),
+      kind: i % 10 === 0 ? EntryKind.credit : EntryKind.debit,
+      notes: i % 4 === 0 ? 'Delivered to the back office' : '',
+      categoryId: undefined,
+      tags: i % 3 === 0 ? ['wholesale'] : [],
+      status,
+      settledDate: status === PaymentStatus.paid ? date.toISOString().slice(0, 10) : undefined,
+      payments: [],
+      createdAt: baseTime + BigInt(i) * 60_000_000_000n,
+      updatedAt: baseTime + BigInt(i) * 60_000_000_000n,
+      version: 1n,
+      owner: undefined,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Renders the entries table's first render for `rowCount` entries to a
+ * string and times it against the performance budget. Rendering on the
+ * server covers the component work the windowing keeps bounded, without a
+ * browser's layout and paint.
+ */
+export async function measureEntriesTableFirstRender(rowCount: number): Promise<BudgetMeasurement> {
+  const entries = generateEntries(rowCount);
+  const rootRoute = createRootRoute({
+    component: () => (
+      <EntriesTable
+        entries={entries}
+        hasMore
+        sort={{ field: EntrySortField.createdAt, descending: true }}
+        onSortChange={() => {}}
+        selectedIds={new Set()}
+        onSelectedIdsChange={() => {}}
+      />
+    ),
+  });
+  const router = createRouter({
+    routeTree: rootRoute,
+    history: createMemoryHistory({ initialEntries: ['/'] }),
+  });
+  await router.load();
+
+  const startedAt = performance.now();
+  renderToString(
+    <QueryClientProvider client={new QueryClient()}>
+      <InternetIdentityProvider>
+        <RouterProvider router={router} />
+      </InternetIdentityProvider>
+    </QueryClientProvider>
+  );
+  return checkAgainstBudget('entries-table:first-render', performance.now() - startedAt, rowCount);
+}
@@ -9,36 +9,51 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import type { Entry } from '../backend';
-import { aggregateByMonth, aggregateByYear, getAvailableYears } from '../utils/analytics';
+import type { EntryAnalyticsBucket } from '../backend';
+import { useListCategories } from '../features/categories/queries';
+import { aggregateByCategory, aggregateByMonth, aggregateByYear, getAvailableYears } from '../utils/analytics';
+import { formatRupees } from '../utils/amount';
 import { BarChart3 } from 'lucide-react';
 
 interface AnalyticsSectionProps {
-  entries: Entry[];
+  // Per-month entry totals from getEntryAnalytics
+  buckets: EntryAnalyticsBucket[];
 }
 
-type ViewMode = 'monthly' | 'yearly';
+type ViewMode = 'monthly' | 'yearly' | 'category';
 
-export function AnalyticsSection({ entries }: AnalyticsSectionProps) {
+const AMOUNT_SERIES = ['Debits (Rs.)', 'Credits (Rs.)', 'Net (Rs.)'];
+
+// Shows amount totals with two decimals; counts are left as-is
+const formatTooltipValue = (value: number, name: string) =>
+  AMOUNT_SERIES.includes(name) ? formatRupees(value) : value;
+
+export function AnalyticsSection({ buckets }: AnalyticsSectionProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('monthly');
   
-  const availableYears = useMemo(() => getAvailableYears(entries), [entries]);
+  const availableYears = useMemo(() => getAvailableYears(buckets), [buckets]);
   const currentYear = new Date().getFullYear();
   const [selectedYear, setSelectedYear] = useState<number>(
     availableYears.includes(currentYear) ? currentYear : availableYears[0] || currentYear
   );
 
   const monthlyData = useMemo(
-    () => aggregateByMonth(entries, selectedYear),
-    [entries, selectedYear]
+    () => aggregateByMonth(buckets, selectedYear),
+    [buckets, selectedYear]
   );
 
   const yearlyData = useMemo(
-    () => aggregateByYear(entries),
-    [entries]
+    () => aggregateByYear(buckets),
+    [buckets]
+  );
+
+  const { data: categories = [] } = useListCategories();
+  const categoryData = useMemo(
+    () => aggregateByCategory(buckets, categories),
+    [buckets, categories]
   );
 
-  const hasData = entries.length > 0;
+  const hasData = buckets.length > 0;
 
   return (
     <Card className="shadow-soft">
@@ -50,7 +65,7 @@ export function AnalyticsSection({ entries }: AnalyticsSectionProps) {
               Analytics
             </CardTitle>
             <CardDescription>
-              View transaction trends by month or year
+              View transaction trends by month or year, or totals by category
             </CardDescription>
           </div>
           <div className="flex gap-2">
@@ -68,6 +83,13 @@ export function AnalyticsSection({ entries }: AnalyticsSectionProps) {
             >
               Yearly
             </Button>
+            <Button
+              variant={viewMode === 'category' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setViewMode('category')}
+            >
+              By category
+            </Button>
           </div>
         </div>
       </CardHeader>
@@ -123,14 +145,27 @@ export function AnalyticsSection({ entries }: AnalyticsSectionProps) {
                           borderRadius: '0.5rem',
                         }}
                         labelStyle={{ color: 'oklch(var(--foreground))' }}
+                        formatter={formatTooltipValue}
                       />
                       <Legend />
                       <Bar
-                        dataKey="totalAmount"
-                        name="Total Amount (Rs.)"
+                        dataKey="debitAmount"
+                        name="Debits (Rs.)"
                         fill="oklch(var(--chart-1))"
                         radius={[4, 4, 0, 0]}
                       />
+                      <Bar
+                        dataKey="creditAmount"
+                        name="Credits (Rs.)"
+                        fill="oklch(var(--chart-3))"
+                        radius={[4, 4, 0, 0]}
+                      />
+                      <Bar
+                        dataKey="netAmount"
+                        name="Net (Rs.)"
+                        fill="oklch(var(--chart-5))"
+                        radius={[4, 4, 0, 0]}
+                      />
                       <Bar
                         dataKey="count"
                         name="Entry Count"
@@ -164,14 +199,80 @@ export function AnalyticsSection({ entries }: AnalyticsSectionProps) {
                         borderRadius: '0.5rem',
                       }}
                       labelStyle={{ color: 'oklch(var(--foreground))' }}
+                      formatter={formatTooltipValue}
                     />
                     <Legend />
                     <Bar
-                      dataKey="totalAmount"
-                      name="Total Amount (Rs.)"
+                      dataKey="debitAmount"
+                      name="Debits (Rs.)"
                       fill="oklch(var(--chart-1))"
                       radius={[4, 4, 0, 0]}
                     />
+                    <Bar
+                      dataKey="creditAmount"
+                      name="Credits (Rs.)"
+                      fill="oklch(var(--chart-3))"
+                      radius={[4, 4, 0, 0]}
+                    />
+                    <Bar
+                      dataKey="netAmount"
+                      name="Net (Rs.)"
+                      fill="oklch(var(--chart-5))"
+                      radius={[4, 4, 0, 0]}
+                    />
+                    <Bar
+                      dataKey="count"
+                      name="Entry Count"
+                      fill="oklch(var(--chart-2))"
+                      radius={[4, 4, 0, 0]}
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {viewMode === 'category' && (
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={categoryData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                    <XAxis
+                      dataKey="category"
+                      className="text-xs"
+                      tick={{ fill: 'oklch(var(--muted-foreground))' }}
+                    />
+                    <YAxis
+                      className="text-xs"
+                      tick={{ fill: 'oklch(var(--muted-foreground))' }}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: 'oklch(var(--card))',
+                        border: '1px solid oklch(var(--border))',
+                        borderRadius: '0.5rem',
+                      }}
+                      labelStyle={{ color: 'oklch(var(--foreground))' }}
+                      formatter={formatTooltipValue}
+                    />
+                    <Legend />
+                    <Bar
+                      dataKey="debitAmount"
+                      name="Debits (Rs.)"
+                      fill="oklch(var(--chart-1))"
+                      radius={[4, 4, 0, 0]}
+                    />
+                    <Bar
+                      dataKey="creditAmount"
+                      name="Credits (Rs.)"
+                      fill="oklch(var(--chart-3))"
+                      radius={[4, 4, 0, 0]}
+                    />
+                    <Bar
+                      dataKey="netAmount"
+                      name="Net (Rs.)"
+                      fill="oklch(var(--chart-5))"
+                      radius={[4, 4, 0, 0]}
+                    />
                     <Bar
                       dataKey="count"
                       name="Entry Count"
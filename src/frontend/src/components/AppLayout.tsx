@@ -0,0 +1,68 @@
+import { Link, Outlet } from '@tanstack/react-router';
+import { Heart } from 'lucide-react';
+import { AuthStatusBar } from './AuthStatusBar';
+
+const NAV_LINKS = [
+  { to: '/', label: 'Entries' },
+  { to: '/customers', label: 'Customers' },
+] as const;
+
+/**
+ * Page chrome shared by every route: header with navigation, sign-in
+ * status, and footer.
+ */
+export function AppLayout() {
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-6">
+          <h1 className="text-3xl font-bold tracking-tight">Data Entry System</h1>
+          <p className="text-muted-foreground mt-1">
+            Manage customer transactions and records
+          </p>
+          <nav className="mt-4 flex gap-1">
+            {NAV_LINKS.map(({ to, label }) => (
+              <Link
+                key={to}
+                to={to}
+                activeOptions={{ exact: to === '/' }}
+                className="rounded-md px-3 py-1.5 text-sm font-medium text-muted-foreground transition-colors hover:text-foreground"
+                activeProps={{ className: 'bg-primary/10 text-primary' }}
+              >
+                {label}
+              </Link>
+            ))}
+          </nav>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        {/* Auth Status Bar */}
+        <div className="mb-8">
+          <AuthStatusBar />
+        </div>
+
+        <Outlet />
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t mt-16">
+        <div className="container mx-auto px-4 py-6">
+          <p className="text-center text-sm text-muted-foreground">
+            © 2026. Built with <Heart className="inline h-4 w-4 text-primary fill-primary" /> using{' '}
+            <a
+              href="https://caffeine.ai"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium text-foreground hover:text-primary transition-colors"
+            >
+              caffeine.ai
+            </a>
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
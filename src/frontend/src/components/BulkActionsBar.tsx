@@ -0,0 +1,376 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarDays, CircleCheck, FileDown, Loader2, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { PaymentStatus, type Entry } from '../backend';
+import {
+  useDeleteEntries,
+  useUpdateEntries,
+  type BulkEntriesResult,
+} from '../features/entries/queries';
+import { exportToXLSX } from '../utils/entriesXlsxExport';
+import { exportToPDF } from '../utils/entriesPdfExport';
+import { formatManualDate } from '../utils/date';
+import { PAYMENT_STATUSES, PAYMENT_STATUS_LABELS, isSettledStatus } from '../utils/paymentStatus';
+import { validateRequired } from '../utils/validation';
+
+type BulkEditMode = 'date' | 'status';
+
+// Rows a bulk action could not change, with the backend's reason for each
+interface BulkFailureReport {
+  action: string;
+  rows: Array<{ entry: Entry | undefined; id: string; message: string }>;
+}
+
+interface BulkActionsBarProps {
+  // Selected rows among the loaded entries
+  selectedEntries: Entry[];
+  onSelectedIdsChange: (selectedIds: Set<string>) => void;
+  // Shown while some matching entries are not loaded yet; selects them all
+  onSelectAllMatching?: () => void;
+  // Number of entries matching the current filters, when known
+  matchingCount?: number;
+  isSelectingAll?: boolean;
+}
+
+function entriesLabel(count: number): string {
+  return `${count} ${count === 1 ? 'entry' : 'entries'}`;
+}
+
+/**
+ * Toolbar for the selected entries: move them to the trash, change their
+ * manual date or status, or export them. Each action is one backend call
+ * with a result per row; rows that fail stay selected and are listed with
+ * their reasons so they can be checked and retried.
+ */
+export function BulkActionsBar({
+  selectedEntries,
+  onSelectedIdsChange,
+  onSelectAllMatching,
+  matchingCount,
+  isSelectingAll,
+}: BulkActionsBarProps) {
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [editMode, setEditMode] = useState<BulkEditMode | null>(null);
+  const [manualDate, setManualDate] = useState('');
+  const [status, setStatus] = useState<PaymentStatus>(PaymentStatus.pending);
+  const [settledDate, setSettledDate] = useState('');
+  const [failureReport, setFailureReport] = useState<BulkFailureReport | null>(null);
+
+  const deleteMutation = useDeleteEntries();
+  const updateMutation = useUpdateEntries();
+  const isSaving = deleteMutation.isPending || updateMutation.isPending;
+  const selectedCount = selectedEntries.length;
+
+  if (selectedCount === 0) {
+    return null;
+  }
+
+  // Keeps only the failed rows selected and reports the outcome, listing each failure
+  const handleResult = (result: BulkEntriesResult, action: string) => {
+    onSelectedIdsChange(new Set(result.failures.map((failure) => failure.id)));
+
+    if (result.failures.length === 0) {
+      toast.success(`${entriesLabel(result.successCount)} ${action}`);
+      return;
+    }
+
+    const entriesById = new Map(selectedEntries.map((entry) => [entry.id, entry]));
+    setFailureReport({
+      action,
+      rows: result.failures.map(({ id, message }) => ({ entry: entriesById.get(id), id, message })),
+    });
+    if (result.successCount > 0) {
+      toast.warning(
+        `${entriesLabel(result.successCount)} ${action}. ${result.failures.length} failed and are still selected.`
+      );
+    } else {
+      toast.error(`No entries were ${action}.`);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    try {
+      const result = await deleteMutation.mutateAsync(selectedEntries.map((entry) => entry.id));
+      handleResult(result, 'moved to trash');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete entries');
+    } finally {
+      setIsDeleteOpen(false);
+    }
+  };
+
+  const openEdit = (mode: BulkEditMode) => {
+    const today = formatManualDate(new Date());
+    setManualDate(today);
+    setStatus(PaymentStatus.pending);
+    setSettledDate(today);
+    setEditMode(mode);
+  };
+
+  const handleEditSave = async () => {
+    if (editMode === 'date') {
+      const dateValidation = validateRequired(manualDate, 'Manual Date');
+      if (!dateValidation.isValid) {
+        toast.error(dateValidation.error);
+        return;
+      }
+    } else if (isSettledStatus(status)) {
+      const settledValidation = validateRequired(settledDate, 'Settled Date');
+      if (!settledValidation.isValid) {
+        toast.error(settledValidation.error);
+        return;
+      }
+    }
+
+    try {
+      const ids = selectedEntries.map((entry) => entry.id);
+      const result = await updateMutation.mutateAsync(
+        editMode === 'date' ? { ids, manualDate } : { ids, status, settledDate }
+      );
+      handleResult(result, 'updated');
+      setEditMode(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update entries');
+    }
+  };
+
+  const handleExport = (format: 'xlsx' | 'pdf') => {
+    try {
+      if (format === 'xlsx') {
+        exportToXLSX(selectedEntries, 'selected-entries.xlsx');
+        toast.success('XLSX file downloaded successfully!');
+      } else {
+        exportToPDF(selectedEntries, 'selected-entries.pdf');
+        toast.success('Print window opened! Use Print > Save as PDF');
+      }
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export entries');
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm">
+        <span className="font-medium">{entriesLabel(selectedCount)} selected</span>
+        {onSelectAllMatching && (
+          <Button variant="link" size="sm" onClick={onSelectAllMatching} disabled={isSelectingAll}>
+            {isSelectingAll && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {matchingCount === undefined
+              ? 'Select all matching entries'
+              : `Select all ${entriesLabel(matchingCount)} matching`}
+          </Button>
+        )}
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => openEdit('date')} disabled={isSaving}>
+            <CalendarDays className="mr-2 h-4 w-4" />
+            Change date
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => openEdit('status')} disabled={isSaving}>
+            <CircleCheck className="mr-2 h-4 w-4" />
+            Set status
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isSaving}>
+                <FileDown className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => handleExport('xlsx')}>Export XLSX</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleExport('pdf')}>Export PDF</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" size="sm" onClick={() => setIsDeleteOpen(true)} disabled={isSaving}>
+            <Trash2 className="mr-2 h-4 w-4 text-destructive" />
+            Delete
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onSelectedIdsChange(new Set())}
+            disabled={isSaving}
+            aria-label="Clear selection"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Change date / set status */}
+      <Dialog open={editMode !== null} onOpenChange={(open) => !open && setEditMode(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>{editMode === 'date' ? 'Change date' : 'Set status'}</DialogTitle>
+            <DialogDescription>
+              Applies to the {entriesLabel(selectedCount)} selected. Entries with payments keep the status
+              their payments give them.
+            </DialogDescription>
+          </DialogHeader>
+          {editMode === 'date' ? (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-manualDate">Manual Date</Label>
+              <Input
+                id="bulk-manualDate"
+                type="date"
+                value={manualDate}
+                onChange={(e) => setManualDate(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="bulk-status">Status</Label>
+                <Select
+                  value={status}
+                  onValueChange={(value) => setStatus(value as PaymentStatus)}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger id="bulk-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_STATUSES.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {PAYMENT_STATUS_LABELS[item]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isSettledStatus(status) && (
+                <div className="space-y-2">
+                  <Label htmlFor="bulk-settledDate">Settled Date</Label>
+                  <Input
+                    id="bulk-settledDate"
+                    type="date"
+                    value={settledDate}
+                    onChange={(e) => setSettledDate(e.target.value)}
+                    disabled={isSaving}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditMode(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleEditSave} disabled={isSaving}>
+              {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rows the last action could not change */}
+      <Dialog open={failureReport !== null} onOpenChange={(open) => !open && setFailureReport(null)}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>
+              {failureReport && `${entriesLabel(failureReport.rows.length)} not ${failureReport.action}`}
+            </DialogTitle>
+            <DialogDescription>
+              These entries are still selected. Fix the problems below and try again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[50vh] overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Receipt No.</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {failureReport?.rows.map(({ entry, id, message }) => (
+                  <TableRow key={id}>
+                    <TableCell className="whitespace-nowrap">{entry?.receiptNumber ?? id}</TableCell>
+                    <TableCell>{entry?.customerName ?? '—'}</TableCell>
+                    <TableCell className="text-destructive">{message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setFailureReport(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={(open) => !isSaving && setIsDeleteOpen(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Move {entriesLabel(selectedCount)} to trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected entries can be restored from the trash until they are purged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open until the call returns
+                e.preventDefault();
+                handleDeleteConfirm();
+              }}
+              disabled={isSaving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move to trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
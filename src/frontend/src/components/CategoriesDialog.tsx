@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Category } from '../backend';
+import { useDeleteCategory, useListCategories, useSaveCategory } from '../features/categories/queries';
+import { validateRequired } from '../utils/validation';
+
+interface CategoriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Admin list of entry categories with add, rename and delete. Categories
+ * still used by entries, including those in the trash, cannot be deleted.
+ */
+export function CategoriesDialog({ open, onOpenChange }: CategoriesDialogProps) {
+  const [name, setName] = useState('');
+  // Category being renamed; null while the form adds a new one
+  const [editingId, setEditingId] = useState<bigint | null>(null);
+
+  const { data: categories = [], isLoading, error } = useListCategories();
+  const saveMutation = useSaveCategory();
+  const deleteMutation = useDeleteCategory();
+  const isSaving = saveMutation.isPending || deleteMutation.isPending;
+
+  const resetForm = () => {
+    setName('');
+    setEditingId(null);
+  };
+
+  const handleEditClick = (category: Category) => {
+    setEditingId(category.id);
+    setName(category.name);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const nameValidation = validateRequired(name, 'Category name');
+    if (!nameValidation.isValid) {
+      toast.error(nameValidation.error);
+      return;
+    }
+
+    try {
+      await saveMutation.mutateAsync({ id: editingId ?? undefined, name });
+      toast.success(editingId === null ? 'Category added' : 'Category renamed');
+      resetForm();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save category');
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    try {
+      await deleteMutation.mutateAsync(category.id);
+      if (editingId === category.id) {
+        resetForm();
+      }
+      toast.success('Category deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete category');
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) resetForm();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Categories</DialogTitle>
+          <DialogDescription>
+            Lines of business entries can be filed under, e.g. repairs, sales or rentals.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">Loading categories...</p>
+          ) : error ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              {error.message || 'Unable to load categories'}
+            </p>
+          ) : categories.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">No categories yet.</p>
+          ) : (
+            <ul className="divide-y rounded-md border text-sm">
+              {categories.map((category) => (
+                <li
+                  key={category.id.toString()}
+                  className={
+                    editingId === category.id
+                      ? 'flex items-center gap-3 bg-muted/50 px-3 py-2'
+                      : 'flex items-center gap-3 px-3 py-2'
+                  }
+                >
+                  <span className="flex-1">{category.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleEditClick(category)}
+                    disabled={isSaving}
+                    aria-label="Rename category"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(category)}
+                    disabled={isSaving}
+                    aria-label="Delete category"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleSubmit} className="flex items-center gap-2">
+            <Input
+              placeholder="Category name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving}
+              aria-label="Category name"
+            />
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {saveMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                editingId === null && <Plus className="mr-2 h-4 w-4" />
+              )}
+              {editingId === null ? 'Add' : 'Rename'}
+            </Button>
+            {editingId !== null && (
+              <Button type="button" variant="outline" size="sm" onClick={resetForm} disabled={isSaving}>
+                Cancel
+              </Button>
+            )}
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
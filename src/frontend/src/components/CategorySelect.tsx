@@ -0,0 +1,49 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useListCategories } from '../features/categories/queries';
+
+// Select items can't have an empty value, so "no category" gets a sentinel
+const NO_CATEGORY = 'none';
+
+interface CategorySelectProps {
+  // Category id as a string; empty for none
+  value: string;
+  onChange: (value: string) => void;
+  // Label of the empty choice, e.g. "Uncategorized" or "Any category"
+  noneLabel: string;
+  id?: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Select of the admin-defined entry categories with an empty choice first.
+ */
+export function CategorySelect({ value, onChange, noneLabel, id, className, disabled }: CategorySelectProps) {
+  const { data: categories = [] } = useListCategories();
+
+  return (
+    <Select
+      value={value || NO_CATEGORY}
+      onValueChange={(next) => onChange(next === NO_CATEGORY ? '' : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger id={id} className={className} aria-label={id ? undefined : 'Category'}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_CATEGORY}>{noneLabel}</SelectItem>
+        {categories.map((category) => (
+          <SelectItem key={category.id.toString()} value={category.id.toString()}>
+            {category.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Customer } from '../backend';
+import { useSaveCustomer } from '../features/customers/queries';
+import { validateRequired, validateMobileNumber } from '../utils/validation';
+
+interface CustomerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Customer to edit; omit to add a new one
+  customer?: Customer | null;
+}
+
+const EMPTY_FORM = {
+  mobileNumber: '',
+  name: '',
+  alternateNames: '',
+  notes: '',
+};
+
+/**
+ * Adds a customer to the directory or edits an existing one. The mobile
+ * number identifies the customer, so it can only be set when adding.
+ */
+export function CustomerDialog({ open, onOpenChange, customer }: CustomerDialogProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const saveMutation = useSaveCustomer();
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      customer
+        ? {
+            mobileNumber: customer.mobileNumber,
+            name: customer.name,
+            alternateNames: customer.alternateNames.join(', '),
+            notes: customer.notes,
+          }
+        : EMPTY_FORM
+    );
+  }, [open, customer]);
+
+  const handleSave = async () => {
+    const mobileValidation = validateMobileNumber(form.mobileNumber);
+    if (!mobileValidation.isValid) {
+      toast.error(mobileValidation.error);
+      return;
+    }
+
+    const nameValidation = validateRequired(form.name, 'Customer Name');
+    if (!nameValidation.isValid) {
+      toast.error(nameValidation.error);
+      return;
+    }
+
+    try {
+      await saveMutation.mutateAsync({
+        mobileNumber: form.mobileNumber,
+        name: form.name,
+        alternateNames: form.alternateNames.split(','),
+        notes: form.notes,
+      });
+      toast.success(customer ? 'Customer updated' : 'Customer added');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save customer');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{customer ? 'Edit Customer' : 'Add Customer'}</DialogTitle>
+          <DialogDescription>
+            Customers are identified by their mobile number.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="customer-mobileNumber">Mobile Number</Label>
+            <Input
+              id="customer-mobileNumber"
+              type="tel"
+              value={form.mobileNumber}
+              onChange={(e) => setForm({ ...form, mobileNumber: e.target.value })}
+              disabled={!!customer || saveMutation.isPending}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="customer-name">Name</Label>
+            <Input
+              id="customer-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              disabled={saveMutation.isPending}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="customer-alternateNames">Alternate names</Label>
+            <Input
+              id="customer-alternateNames"
+              placeholder="Comma separated"
+              value={form.alternateNames}
+              onChange={(e) => setForm({ ...form, alternateNames: e.target.value })}
+              disabled={saveMutation.isPending}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="customer-notes">Notes</Label>
+            <Textarea
+              id="customer-notes"
+              rows={3}
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              disabled={saveMutation.isPending}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
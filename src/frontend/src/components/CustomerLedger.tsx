@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { EntryKind, type Customer, type Entry } from '../backend';
+import { PaymentStatusBadge } from './PaymentStatusBadge';
+import { useCreateEntry } from '../features/entries/queries';
+import { calculateDaysSince, formatManualDate } from '../utils/date';
+import { formatPaise } from '../utils/amount';
+import { ENTRY_KINDS, ENTRY_KIND_LABELS, getSignedAmountPaise } from '../utils/entryKind';
+import { validateRequired, validateAmount } from '../utils/validation';
+
+interface CustomerLedgerProps {
+  customer: Customer;
+  entries: Entry[];
+  isLoading?: boolean;
+  error?: Error | null;
+  canAdd?: boolean;
+}
+
+/**
+ * A customer's entries in manual-date order with a running net balance, plus
+ * a quick-add form that creates an entry already filled in for the customer.
+ * Credits count against the balance.
+ */
+export function CustomerLedger({ customer, entries, isLoading, error, canAdd }: CustomerLedgerProps) {
+  const [manualDate, setManualDate] = useState(() => formatManualDate(new Date()));
+  const [amountRs, setAmountRs] = useState('');
+  const [kind, setKind] = useState<EntryKind>(EntryKind.debit);
+  const createEntryMutation = useCreateEntry();
+
+  let runningTotal = BigInt(0);
+  const rows = entries.map((entry) => {
+    runningTotal += getSignedAmountPaise(entry);
+    return { entry, runningTotal };
+  });
+
+  const lastEntry = entries.length > 0 ? entries[entries.length - 1] : null;
+  const daysSinceLast = lastEntry ? calculateDaysSince(lastEntry.manualDate) : null;
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const handleQuickAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const dateValidation = validateRequired(manualDate, 'Manual Date');
+    if (!dateValidation.isValid) {
+      toast.error(dateValidation.error);
+      return;
+    }
+
+    const amountValidation = validateAmount(amountRs);
+    if (!amountValidation.isValid) {
+      toast.error(amountValidation.error);
+      return;
+    }
+
+    try {
+      await createEntryMutation.mutateAsync({
+        manualDate,
+        customerName: customer.name,
+        mobileNumber: customer.mobileNumber,
+        amountRs,
+        kind,
+      });
+      setAmountRs('');
+      toast.success('Entry saved successfully!');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save entry. Please try again.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ledger</CardTitle>
+        <CardDescription>
+          {daysSinceLast === null
+            ? 'No transactions yet.'
+            : `${daysSinceLast} ${daysSinceLast === 1 ? 'day' : 'days'} since the last transaction.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canAdd && (
+          <form onSubmit={handleQuickAdd} className="flex flex-wrap items-end gap-3 rounded-md border p-3">
+            <div className="space-y-1">
+              <Label htmlFor="ledger-manualDate" className="text-xs">Manual Date</Label>
+              <Input
+                id="ledger-manualDate"
+                type="date"
+                value={manualDate}
+                onChange={(e) => setManualDate(e.target.value)}
+                disabled={createEntryMutation.isPending}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ledger-amountRs" className="text-xs">Amount (Rs.)</Label>
+              <Input
+                id="ledger-amountRs"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="Enter amount"
+                value={amountRs}
+                onChange={(e) => setAmountRs(e.target.value)}
+                disabled={createEntryMutation.isPending}
+                className="w-40"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ledger-kind" className="text-xs">Type</Label>
+              <Select
+                value={kind}
+                onValueChange={(value) => setKind(value as EntryKind)}
+                disabled={createEntryMutation.isPending}
+              >
+                <SelectTrigger id="ledger-kind" className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENTRY_KINDS.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {ENTRY_KIND_LABELS[item]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" size="sm" disabled={createEntryMutation.isPending}>
+              {createEntryMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Add entry
+            </Button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="py-8 text-center text-muted-foreground">Loading entries...</p>
+        ) : error ? (
+          <p className="py-8 text-center text-muted-foreground">{error.message || 'Unable to load entries'}</p>
+        ) : rows.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">No entries for this customer yet.</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Manual Date</TableHead>
+                  <TableHead>DAYS</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Name on Entry</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Amount (Rs.)</TableHead>
+                  <TableHead className="text-right">Balance (Rs.)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ entry, runningTotal }) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">{formatDate(entry.manualDate)}</TableCell>
+                    <TableCell className="text-primary">
+                      {calculateDaysSince(entry.manualDate, entry.settledDate) ?? 'N/A'}
+                    </TableCell>
+                    <TableCell>
+                      <PaymentStatusBadge status={entry.status} settledDate={entry.settledDate} />
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{entry.customerName}</TableCell>
+                    <TableCell>{ENTRY_KIND_LABELS[entry.kind]}</TableCell>
+                    <TableCell className="text-right">{formatPaise(getSignedAmountPaise(entry))}</TableCell>
+                    <TableCell className="text-right font-medium">{formatPaise(runningTotal)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={6}>Balance</TableCell>
+                  <TableCell className="text-right">{formatPaise(runningTotal)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Button } from '@/components/ui/button';
+import { Users } from 'lucide-react';
+import type { Customer } from '../backend';
+import { useListCustomers } from '../features/customers/queries';
+
+interface CustomerPickerProps {
+  onSelect: (customer: Customer) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Button that opens a searchable list of directory customers. Alternate
+ * names are searchable too, so any known spelling finds the customer.
+ */
+export function CustomerPicker({ onSelect, disabled }: CustomerPickerProps) {
+  const [open, setOpen] = useState(false);
+  const { data: customers = [] } = useListCustomers();
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="sm" disabled={disabled} className="h-auto px-2 py-0.5 text-xs">
+          <Users className="h-3.5 w-3.5 mr-1" />
+          Pick customer
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <Command>
+          <CommandInput placeholder="Search name or mobile number..." />
+          <CommandList>
+            <CommandEmpty>No customers found.</CommandEmpty>
+            <CommandGroup>
+              {customers.map(({ customer }) => (
+                <CommandItem
+                  key={customer.mobileNumber}
+                  value={customer.mobileNumber}
+                  keywords={[customer.name, ...customer.alternateNames]}
+                  onSelect={() => {
+                    onSelect(customer);
+                    setOpen(false);
+                  }}
+                >
+                  <div className="flex flex-col">
+                    <span>{customer.name}</span>
+                    <span className="text-xs text-muted-foreground">{customer.mobileNumber}</span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,167 @@
+import { useRef, useState } from 'react';
+import { TableCell } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Loader2 } from 'lucide-react';
+
+// Tab moves forward, Shift+Tab back
+export type CellMove = 1 | -1;
+
+interface EditableCellProps {
+  // Value as it is edited, e.g. YYYY-MM-DD for dates
+  value: string;
+  label: string;
+  type?: 'text' | 'date' | 'tel';
+  inputMode?: 'decimal' | 'numeric';
+  isEditing: boolean;
+  // Value being saved; shown in place of the cell content until the save finishes
+  pendingValue?: string;
+  // Why the last save failed
+  error?: string;
+  // Returns the message for an invalid value
+  validate: (value: string) => string | undefined;
+  onStartEdit: () => void;
+  onCommit: (value: string, move?: CellMove) => void;
+  onCancel: () => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+interface CellEditorProps {
+  value: string;
+  label: string;
+  type: 'text' | 'date' | 'tel';
+  inputMode?: 'decimal' | 'numeric';
+  validate: (value: string) => string | undefined;
+  onCommit: (value: string, move: CellMove | undefined, fromKeyboard: boolean) => void;
+  onCancel: () => void;
+}
+
+// Mounted only while editing, so every edit starts from the current value
+function CellEditor({ value, label, type, inputMode, validate, onCommit, onCancel }: CellEditorProps) {
+  const [draft, setDraft] = useState(value);
+  const [error, setError] = useState<string | undefined>();
+  // Set once the edit is committed or cancelled, so the blur that follows does nothing
+  const isDoneRef = useRef(false);
+
+  const commit = (move: CellMove | undefined, fromKeyboard: boolean) => {
+    if (isDoneRef.current) return;
+    const validationError = validate(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    isDoneRef.current = true;
+    onCommit(draft, move, fromKeyboard);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commit(undefined, true);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      commit(e.shiftKey ? -1 : 1, true);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      isDoneRef.current = true;
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Input
+        autoFocus
+        type={type}
+        inputMode={inputMode}
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setError(undefined);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => commit(undefined, false)}
+        className={error ? 'h-8 min-w-28 border-destructive' : 'h-8 min-w-28'}
+        aria-label={label}
+        aria-invalid={!!error}
+      />
+      {error && <p className="form-error whitespace-normal">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Table cell that can be edited in place, spreadsheet style: double-click or
+ * Enter starts editing, Enter or leaving the cell saves, Tab saves and moves
+ * to the next cell and Escape discards the change. Invalid values keep the
+ * editor open with the validation message.
+ */
+export function EditableCell({
+  value,
+  label,
+  type = 'text',
+  inputMode,
+  isEditing,
+  pendingValue,
+  error,
+  validate,
+  onStartEdit,
+  onCommit,
+  onCancel,
+  className,
+  children,
+}: EditableCellProps) {
+  const cellRef = useRef<HTMLTableCellElement>(null);
+
+  // Enter and Escape leave focus on the cell, so the keyboard can carry on from it
+  const handleCommit = (nextValue: string, move: CellMove | undefined, fromKeyboard: boolean) => {
+    if (fromKeyboard && move === undefined) {
+      cellRef.current?.focus();
+    }
+    onCommit(nextValue, move);
+  };
+
+  const handleCancel = () => {
+    cellRef.current?.focus();
+    onCancel();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTableCellElement>) => {
+    if (!isEditing && e.key === 'Enter' && e.target === e.currentTarget) {
+      e.preventDefault();
+      onStartEdit();
+    }
+  };
+
+  return (
+    <TableCell
+      ref={cellRef}
+      tabIndex={isEditing ? -1 : 0}
+      onDoubleClick={isEditing ? undefined : onStartEdit}
+      onKeyDown={handleKeyDown}
+      className={`focus-visible:outline-2 focus-visible:outline-ring ${error && !isEditing ? 'bg-destructive/10' : ''} ${className ?? ''}`}
+    >
+      {isEditing ? (
+        <CellEditor
+          value={value}
+          label={label}
+          type={type}
+          inputMode={inputMode}
+          validate={validate}
+          onCommit={handleCommit}
+          onCancel={handleCancel}
+        />
+      ) : pendingValue !== undefined ? (
+        <span className="inline-flex items-center gap-1.5 text-muted-foreground">
+          {pendingValue}
+          <Loader2 className="h-3.5 w-3.5 animate-spin" aria-label="Saving" />
+        </span>
+      ) : (
+        <>
+          {children}
+          {error && <p className="form-error whitespace-normal">{error}</p>}
+        </>
+      )}
+    </TableCell>
+  );
+}
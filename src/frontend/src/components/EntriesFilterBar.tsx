@@ -0,0 +1,287 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import { EntrySortField, type PaymentStatus } from '../backend';
+import { CategorySelect } from './CategorySelect';
+import {
+  EMPTY_ENTRY_SEARCH_FILTERS,
+  hasActiveEntrySearch,
+  type EntrySearchFilters,
+} from '../features/entries/queries';
+import { PAYMENT_STATUSES, PAYMENT_STATUS_LABELS } from '../utils/paymentStatus';
+import { isSameEntrySearch } from '../utils/entrySearchParams';
+
+// Select items can't have an empty value, so "any status" gets a sentinel
+const ANY_STATUS = 'any';
+
+// Delay before typed filters are sent, so each keystroke doesn't trigger a query
+const FILTER_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: Array<{ value: string; label: string; field: EntrySortField; descending: boolean }> = [
+  { value: 'createdAt:desc', label: 'Newest first', field: EntrySortField.createdAt, descending: true },
+  { value: 'createdAt:asc', label: 'Oldest first', field: EntrySortField.createdAt, descending: false },
+  { value: 'manualDate:desc', label: 'Manual date (latest)', field: EntrySortField.manualDate, descending: true },
+  { value: 'manualDate:asc', label: 'Manual date (earliest)', field: EntrySortField.manualDate, descending: false },
+  { value: 'customerName:asc', label: 'Customer name (A-Z)', field: EntrySortField.customerName, descending: false },
+  { value: 'customerName:desc', label: 'Customer name (Z-A)', field: EntrySortField.customerName, descending: true },
+  { value: 'amount:desc', label: 'Amount (highest)', field: EntrySortField.amount, descending: true },
+  { value: 'amount:asc', label: 'Amount (lowest)', field: EntrySortField.amount, descending: false },
+  { value: 'days:desc', label: 'DAYS (most)', field: EntrySortField.days, descending: true },
+  { value: 'days:asc', label: 'DAYS (fewest)', field: EntrySortField.days, descending: false },
+];
+
+interface EntriesFilterBarProps {
+  filters: EntrySearchFilters;
+  onChange: (filters: EntrySearchFilters) => void;
+  resultCount?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Quick search, filter and sort controls for the entries list. Text inputs are
+ * debounced before `onChange` is called; date, status, category, sort and clear
+ * apply immediately.
+ */
+export function EntriesFilterBar({ filters, onChange, resultCount, disabled }: EntriesFilterBarProps) {
+  const [draft, setDraft] = useState<EntrySearchFilters>(filters);
+
+  // Follow changes made elsewhere, e.g. sorting from the table headers or going
+  // back in history, but keep typed text that only differs in formatting
+  useEffect(() => {
+    setDraft((current) => (isSameEntrySearch(current, filters) ? current : filters));
+  }, [filters]);
+
+  useEffect(() => {
+    if (draft === filters) return;
+    const timeout = setTimeout(() => onChange(draft), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [draft]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setDraft((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const applyNow = (next: EntrySearchFilters) => {
+    setDraft(next);
+    onChange(next);
+  };
+
+  const handleSortChange = (value: string) => {
+    const option = SORT_OPTIONS.find((o) => o.value === value);
+    if (option) {
+      applyNow({ ...draft, sortField: option.field, descending: option.descending });
+    }
+  };
+
+  const handleStatusChange = (value: string) => {
+    applyNow({ ...draft, status: value === ANY_STATUS ? '' : (value as PaymentStatus) });
+  };
+
+  const sortValue = `${draft.sortField}:${draft.descending ? 'desc' : 'asc'}`;
+  const isActive = hasActiveEntrySearch(draft);
+
+  return (
+    <Card className="shadow-soft">
+      <CardContent className="pt-6 space-y-4">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            name="searchText"
+            placeholder="Quick search: receipt no., name, mobile, notes or tag..."
+            value={draft.searchText}
+            onChange={handleInputChange}
+            disabled={disabled}
+            className="pl-8"
+            aria-label="Quick search"
+          />
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="filter-customerName" className="text-xs">Customer name</Label>
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="filter-customerName"
+                name="customerName"
+                placeholder="Contains..."
+                value={draft.customerName}
+                onChange={handleInputChange}
+                disabled={disabled}
+                className="pl-8"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-mobilePrefix" className="text-xs">Mobile number</Label>
+            <Input
+              id="filter-mobilePrefix"
+              name="mobilePrefix"
+              type="tel"
+              placeholder="Starts with..."
+              value={draft.mobilePrefix}
+              onChange={handleInputChange}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-fromDate" className="text-xs">Manual date from</Label>
+            <Input
+              id="filter-fromDate"
+              type="date"
+              value={draft.fromDate}
+              onChange={(e) => applyNow({ ...draft, fromDate: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-toDate" className="text-xs">Manual date to</Label>
+            <Input
+              id="filter-toDate"
+              type="date"
+              value={draft.toDate}
+              onChange={(e) => applyNow({ ...draft, toDate: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-minAmount" className="text-xs">Min amount (Rs.)</Label>
+            <Input
+              id="filter-minAmount"
+              name="minAmount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={draft.minAmount}
+              onChange={handleInputChange}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-maxAmount" className="text-xs">Max amount (Rs.)</Label>
+            <Input
+              id="filter-maxAmount"
+              name="maxAmount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={draft.maxAmount}
+              onChange={handleInputChange}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-minDays" className="text-xs">Min DAYS</Label>
+            <Input
+              id="filter-minDays"
+              name="minDays"
+              type="number"
+              step="1"
+              value={draft.minDays}
+              onChange={handleInputChange}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-maxDays" className="text-xs">Max DAYS</Label>
+            <Input
+              id="filter-maxDays"
+              name="maxDays"
+              type="number"
+              step="1"
+              value={draft.maxDays}
+              onChange={handleInputChange}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-categoryId" className="text-xs">Category</Label>
+            <CategorySelect
+              id="filter-categoryId"
+              value={draft.categoryId}
+              onChange={(categoryId) => applyNow({ ...draft, categoryId })}
+              noneLabel="Any category"
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-tag" className="text-xs">Tag</Label>
+            <Input
+              id="filter-tag"
+              name="tag"
+              placeholder="Exact tag..."
+              value={draft.tag}
+              onChange={handleInputChange}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1 sm:col-span-2">
+            <Label htmlFor="filter-notes" className="text-xs">Notes</Label>
+            <Input
+              id="filter-notes"
+              name="notes"
+              placeholder="Contains..."
+              value={draft.notes}
+              onChange={handleInputChange}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={draft.status || ANY_STATUS} onValueChange={handleStatusChange} disabled={disabled}>
+            <SelectTrigger className="w-44" aria-label="Filter by status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_STATUS}>Any status</SelectItem>
+              {PAYMENT_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {PAYMENT_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={sortValue} onValueChange={handleSortChange} disabled={disabled}>
+            <SelectTrigger className="w-52" aria-label="Sort entries">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isActive && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => applyNow(EMPTY_ENTRY_SEARCH_FILTERS)}
+              disabled={disabled}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear filters
+            </Button>
+          )}
+          {isActive && resultCount !== undefined && (
+            <span className="text-sm text-muted-foreground ml-auto">
+              {resultCount} {resultCount === 1 ? 'match' : 'matches'}
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
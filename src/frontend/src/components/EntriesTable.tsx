@@ -1,6 +1,6 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Link } from '@tanstack/react-router';
 import {
-  Table,
   TableBody,
   TableCell,
   TableHead,
@@ -9,6 +9,7 @@ import {
 } from '@/components/ui/table';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import {
   Dialog,
   DialogContent,
@@ -28,35 +29,254 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { AlertCircle, LogIn, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Eye, History, LogIn, Pencil, StickyNote, Tags, Trash, Trash2, Loader2, Wallet } from 'lucide-react';
 import { toast } from 'sonner';
-import type { Entry } from '../backend';
-import { calculateDaysSince } from '../utils/date';
-import { useUpdateEntry, useDeleteEntry } from '../features/entries/queries';
+import { EntryColumn, EntryKind, EntrySortField, PaymentStatus, type Entry, type EntryColumnSetting, type EntrySort } from '../backend';
+import { CategorySelect } from './CategorySelect';
+import { EntryDetailsPanel } from './EntryDetailsPanel';
+import { EntryHistoryPanel } from './EntryHistoryPanel';
+import { PaymentStatusBadge } from './PaymentStatusBadge';
+import { PaymentsDialog } from './PaymentsDialog';
+import { SortableTableHead } from './SortableTableHead';
+import { EditableCell, type CellMove } from './EditableCell';
+import { EntryColumnsMenu } from './EntryColumnsMenu';
+import { TagsInput } from './TagsInput';
+import { EntryConflictView, entryToEditValues, type EntryEditValues } from './EntryConflictView';
+import { calculateDaysSince, formatManualDate } from '../utils/date';
+import { formatPrincipal } from '../utils/principal';
+import { formatPaise, formatPaiseAsDecimal, parseRupeesToPaise } from '../utils/amount';
+import { UNCATEGORIZED_LABEL, getCategoryName } from '../utils/categories';
+import { normalizeMobileNumber } from '../utils/mobile';
+import { ENTRY_KINDS, ENTRY_KIND_LABELS, getSignedAmountPaise } from '../utils/entryKind';
+import { PAYMENT_STATUSES, PAYMENT_STATUS_LABELS, isSettledStatus } from '../utils/paymentStatus';
+import { getOutstandingPaise } from '../utils/payments';
+import { measureAgainstBudget } from '../utils/performanceBudget';
+import { DEFAULT_ENTRY_COLUMN_LAYOUT, ENTRY_COLUMN_LABELS } from '../utils/entryColumns';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { EntryConflictError, useUpdateEntry, useDeleteEntry, type UpdateEntryInput } from '../features/entries/queries';
+import { useListCategories } from '../features/categories/queries';
 import { validateRequired, validateMobileNumber, validateAmount } from '../utils/validation';
 
+// Height of a row without tags, used for rows not rendered yet
+const ESTIMATED_ROW_HEIGHT = 49;
+
+// Columns that are always shown. Each stays after the column it follows in
+// the default layout, so e.g. Outstanding moves along with Amount.
+type FixedColumn = 'status' | 'kind' | 'category' | 'outstanding';
+
+const FIXED_COLUMNS_AFTER: Partial<Record<EntryColumn, FixedColumn[]>> = {
+  [EntryColumn.days]: ['status'],
+  [EntryColumn.mobileNumber]: ['kind', 'category'],
+  [EntryColumn.amount]: ['outstanding'],
+};
+
+// Columns between Receipt No. and Owner, in the order they are shown
+function getTableColumns(columns: EntryColumnSetting[]): Array<EntryColumn | FixedColumn> {
+  return columns.flatMap(({ column, visible }) => [
+    ...(visible ? [column] : []),
+    ...(FIXED_COLUMNS_AFTER[column] ?? []),
+  ]);
+}
+
+// Cells that can be edited in place
+type InlineField = 'manualDate' | 'customerName' | 'mobileNumber' | 'amountRs';
+
+const INLINE_FIELD_COLUMNS: Record<InlineField, EntryColumn> = {
+  manualDate: EntryColumn.manualDate,
+  customerName: EntryColumn.customerName,
+  mobileNumber: EntryColumn.mobileNumber,
+  amountRs: EntryColumn.amount,
+};
+
+// Editable cells of the visible columns, in Tab order
+function getInlineFields(tableColumns: Array<EntryColumn | FixedColumn>): InlineField[] {
+  return tableColumns.flatMap((column) =>
+    (Object.keys(INLINE_FIELD_COLUMNS) as InlineField[]).filter((field) => INLINE_FIELD_COLUMNS[field] === column)
+  );
+}
+
+const INLINE_FIELD_LABELS: Record<InlineField, string> = {
+  manualDate: 'Manual Date',
+  customerName: 'Customer Name',
+  mobileNumber: 'Mobile Number',
+  amountRs: 'Amount (Rs.)',
+};
+
+function getInlineValue(entry: Entry, field: InlineField): string {
+  return field === 'amountRs' ? formatPaiseAsDecimal(entry.amountPaise) : entry[field];
+}
+
+// Amounts compare by value, so retyping 100.00 as 100 is not a change
+function isUnchangedInlineValue(entry: Entry, field: InlineField, value: string): boolean {
+  return field === 'amountRs'
+    ? parseRupeesToPaise(value) === entry.amountPaise
+    : value === getInlineValue(entry, field);
+}
+
+// Same rules as the edit dialog
+function validateInlineValue(field: InlineField, value: string): string | undefined {
+  if (field === 'mobileNumber') {
+    return validateMobileNumber(value).error;
+  } else if (field === 'amountRs') {
+    return validateAmount(value).error;
+  }
+  return validateRequired(value, INLINE_FIELD_LABELS[field]).error;
+}
+
+function buildUpdateInput(values: EntryEditValues, baseEntry: Entry): UpdateEntryInput {
+  return {
+    id: baseEntry.id,
+    manualDate: values.manualDate,
+    customerName: values.customerName,
+    mobileNumber: values.mobileNumber,
+    amountRs: values.amountRs,
+    kind: values.kind,
+    status: values.status,
+    settledDate: values.settledDate,
+    notes: values.notes,
+    categoryId: values.categoryId ? BigInt(values.categoryId) : undefined,
+    tags: values.tags,
+    expectedVersion: baseEntry.version,
+  };
+}
+
 interface EntriesTableProps {
   entries: Entry[];
   isLoading?: boolean;
   error?: Error | null;
   onSignIn?: () => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  canShowAllUsers?: boolean;
+  showAllUsers?: boolean;
+  onShowAllUsersChange?: (showAllUsers: boolean) => void;
+  isFiltered?: boolean;
+  onOpenTrash?: () => void;
+  // Admin only: opens category management
+  onOpenCategories?: () => void;
+  // Headers of sortable columns are clickable when both are given
+  sort?: EntrySort;
+  onSortChange?: (sort: EntrySort) => void;
+  // Rows get checkboxes for bulk actions when both are given
+  selectedIds?: ReadonlySet<string>;
+  onSelectedIdsChange?: (selectedIds: Set<string>) => void;
+  // Order and visibility of the configurable columns; the columns menu is shown when onColumnsChange is given
+  columns?: EntryColumnSetting[];
+  onColumnsChange?: (columns: EntryColumnSetting[]) => void;
+  // Extra controls for the card header, e.g. the saved views menu
+  headerActions?: React.ReactNode;
 }
 
-export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTableProps) {
+export function EntriesTable({
+  entries,
+  isLoading,
+  error,
+  onSignIn,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  canShowAllUsers,
+  showAllUsers,
+  onShowAllUsersChange,
+  isFiltered,
+  onOpenTrash,
+  onOpenCategories,
+  sort,
+  onSortChange,
+  selectedIds,
+  onSelectedIdsChange,
+  columns = DEFAULT_ENTRY_COLUMN_LAYOUT,
+  onColumnsChange,
+  headerActions,
+}: EntriesTableProps) {
+  const renderStartedAt = performance.now();
+  const hasMeasuredFirstRenderRef = useRef(false);
+  const { identity } = useInternetIdentity();
   const [editingEntry, setEditingEntry] = useState<Entry | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const [deletingEntryId, setDeletingEntryId] = useState<string | null>(null);
+  const [historyEntry, setHistoryEntry] = useState<Entry | null>(null);
+  const [detailsEntry, setDetailsEntry] = useState<Entry | null>(null);
+  // Looked up from entries on each render, so the dialog shows payments as they are saved
+  const [paymentsEntryId, setPaymentsEntryId] = useState<string | null>(null);
+  const paymentsEntry = entries.find((entry) => entry.id === paymentsEntryId) ?? null;
+  // Set when a save was rejected because the entry changed on the server
+  const [conflictEntry, setConflictEntry] = useState<Entry | null>(null);
   
   // Form state for editing
-  const [editForm, setEditForm] = useState({
+  const [editForm, setEditForm] = useState<EntryEditValues>({
     manualDate: '',
     customerName: '',
     mobileNumber: '',
     amountRs: '',
+    kind: EntryKind.debit,
+    status: PaymentStatus.pending,
+    settledDate: '',
+    notes: '',
+    categoryId: '',
+    tags: [],
   });
 
+  // Cell being edited in place
+  const [editingCell, setEditingCell] = useState<{ entryId: string; field: InlineField } | null>(null);
+  // Values being saved and save errors, by cell key
+  const [pendingCells, setPendingCells] = useState<Record<string, string>>({});
+  const [cellErrors, setCellErrors] = useState<Record<string, string>>({});
+
   const updateMutation = useUpdateEntry();
+  // Kept apart so inline saves don't show the edit dialog as saving
+  const inlineUpdateMutation = useUpdateEntry();
   const deleteMutation = useDeleteEntry();
+  const { data: categories = [] } = useListCategories();
+
+  // Only the rows in view are rendered, so long listings stay responsive
+  const getRowKey = useCallback((index: number) => entries[index].id, [entries]);
+  const virtualRows = useVirtualRows({
+    count: entries.length,
+    getKey: getRowKey,
+    estimateRowHeight: ESTIMATED_ROW_HEIGHT,
+  });
+  const visibleEntries = entries.slice(virtualRows.startIndex, virtualRows.endIndex);
+
+  const tableColumns = getTableColumns(columns);
+  const inlineFields = getInlineFields(tableColumns);
+
+  // Times the first render that has entries, up to the rows being in the DOM
+  useLayoutEffect(() => {
+    if (hasMeasuredFirstRenderRef.current || entries.length === 0) return;
+    hasMeasuredFirstRenderRef.current = true;
+    measureAgainstBudget('entries-table:first-render', renderStartedAt, entries.length);
+  });
+
+  // Load the next page when the sentinel below the table scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || isLoadingMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (observed) => {
+        if (observed.some((item) => item.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore, entries.length]);
 
   const formatDate = (dateString: string) => {
     try {
@@ -88,12 +308,9 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
     }
   };
 
-  const formatAmount = (amount: bigint) => {
-    return `₹${amount.toLocaleString('en-IN')}`;
-  };
-
-  const formatDaysSince = (manualDate: string): string => {
-    const days = calculateDaysSince(manualDate);
+  // Counts up to the settled date once an entry is paid or written off
+  const formatDaysSince = (entry: Entry): string => {
+    const days = calculateDaysSince(entry.manualDate, entry.settledDate);
     if (days === null) {
       return 'N/A';
     }
@@ -102,21 +319,23 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
 
   const handleEditClick = (entry: Entry) => {
     setEditingEntry(entry);
-    setEditForm({
-      manualDate: entry.manualDate,
-      customerName: entry.customerName,
-      mobileNumber: entry.mobileNumber,
-      amountRs: entry.amountRs.toString(),
-    });
+    setEditForm(entryToEditValues(entry));
   };
 
   const handleEditClose = () => {
     setEditingEntry(null);
+    setConflictEntry(null);
     setEditForm({
       manualDate: '',
       customerName: '',
       mobileNumber: '',
       amountRs: '',
+      kind: EntryKind.debit,
+      status: PaymentStatus.pending,
+      settledDate: '',
+      notes: '',
+      categoryId: '',
+      tags: [],
     });
   };
 
@@ -145,9 +364,34 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
       return false;
     }
 
+    if (isSettledStatus(editForm.status)) {
+      const settledDateValidation = validateRequired(editForm.settledDate, 'Settled Date');
+      if (!settledDateValidation.isValid) {
+        toast.error(settledDateValidation.error);
+        return false;
+      }
+    }
+
     return true;
   };
 
+  // Saves the form against the given entry version
+  const saveEdit = async (baseEntry: Entry) => {
+    try {
+      await updateMutation.mutateAsync(buildUpdateInput(editForm, baseEntry));
+      toast.success('Entry updated successfully');
+      handleEditClose();
+    } catch (error) {
+      if (error instanceof EntryConflictError) {
+        setEditingEntry(error.current);
+        setConflictEntry(error.current);
+        return;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update entry';
+      toast.error(errorMessage);
+    }
+  };
+
   const handleEditSave = async () => {
     if (!editingEntry) return;
 
@@ -155,22 +399,127 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
       return;
     }
 
+    await saveEdit(editingEntry);
+  };
+
+  // Discards the user's edits and continues editing from the server's values
+  const handleConflictUseCurrent = () => {
+    if (!conflictEntry) return;
+    setEditForm(entryToEditValues(conflictEntry));
+    setConflictEntry(null);
+  };
+
+  // Saves the user's edits over the server's values
+  const handleConflictKeepYours = async () => {
+    if (!conflictEntry) return;
+    setConflictEntry(null);
+    await saveEdit(conflictEntry);
+  };
+
+  // Settling an entry defaults its settled date to today
+  const handleStatusChange = (value: string) => {
+    const status = value as PaymentStatus;
+    setEditForm((prev) => ({
+      ...prev,
+      status,
+      settledDate: isSettledStatus(status) && !prev.settledDate ? formatManualDate(new Date()) : prev.settledDate,
+    }));
+  };
+
+  const cellKey = (entryId: string, field: InlineField) => `${entryId}:${field}`;
+
+  const clearCellState = (
+    setter: React.Dispatch<React.SetStateAction<Record<string, string>>>,
+    key: string
+  ) => {
+    setter((prev) => {
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Tab order runs along the editable cells of a row, then on to the next row
+  const moveEditingCell = (entryId: string, field: InlineField, move: CellMove) => {
+    const rowIndex = entries.findIndex((entry) => entry.id === entryId);
+    const position = rowIndex * inlineFields.length + inlineFields.indexOf(field) + move;
+    const nextEntry = entries[Math.floor(position / inlineFields.length)];
+    setEditingCell(
+      rowIndex >= 0 && position >= 0 && nextEntry
+        ? { entryId: nextEntry.id, field: inlineFields[position % inlineFields.length] }
+        : null
+    );
+  };
+
+  // Saves one cell on top of the entry's other values. If the entry has moved on,
+  // e.g. through an earlier cell of the same row, the save is repeated on the
+  // current entry as long as this cell's value is still the one that was edited.
+  const saveCell = async (entry: Entry, field: InlineField, value: string) => {
+    const key = cellKey(entry.id, field);
+    if (isUnchangedInlineValue(entry, field, value)) {
+      clearCellState(setCellErrors, key);
+      return;
+    }
+
+    const save = (baseEntry: Entry) =>
+      inlineUpdateMutation.mutateAsync(buildUpdateInput({ ...entryToEditValues(baseEntry), [field]: value }, baseEntry));
+
+    setPendingCells((prev) => ({ ...prev, [key]: value }));
     try {
-      await updateMutation.mutateAsync({
-        id: editingEntry.id,
-        manualDate: editForm.manualDate,
-        customerName: editForm.customerName,
-        mobileNumber: editForm.mobileNumber,
-        amountRs: editForm.amountRs,
-      });
-      toast.success('Entry updated successfully');
-      handleEditClose();
+      try {
+        await save(entry);
+      } catch (error) {
+        if (!(error instanceof EntryConflictError) || getInlineValue(error.current, field) !== getInlineValue(entry, field)) {
+          throw error;
+        }
+        await save(error.current);
+      }
+      clearCellState(setCellErrors, key);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to update entry';
-      toast.error(errorMessage);
+      setCellErrors((prev) => ({ ...prev, [key]: errorMessage }));
+    } finally {
+      clearCellState(setPendingCells, key);
     }
   };
 
+  const handleCellCommit = (entry: Entry, field: InlineField, value: string, move?: CellMove) => {
+    if (move) {
+      moveEditingCell(entry.id, field, move);
+    } else {
+      setEditingCell(null);
+    }
+    saveCell(entry, field, value);
+  };
+
+  const renderEditableCell = (
+    entry: Entry,
+    field: InlineField,
+    content: React.ReactNode,
+    options: { type?: 'text' | 'date' | 'tel'; inputMode?: 'decimal'; className?: string } = {}
+  ) => {
+    const key = cellKey(entry.id, field);
+    return (
+      <EditableCell
+        key={field}
+        value={getInlineValue(entry, field)}
+        label={`${INLINE_FIELD_LABELS[field]} for ${entry.receiptNumber || entry.customerName}`}
+        isEditing={editingCell?.entryId === entry.id && editingCell.field === field}
+        pendingValue={pendingCells[key]}
+        error={cellErrors[key]}
+        validate={(value) => validateInlineValue(field, value)}
+        onStartEdit={() => {
+          clearCellState(setCellErrors, key);
+          setEditingCell({ entryId: entry.id, field });
+        }}
+        onCommit={(value, move) => handleCellCommit(entry, field, value, move)}
+        onCancel={() => setEditingCell(null)}
+        {...options}
+      >
+        {content}
+      </EditableCell>
+    );
+  };
+
   const handleDeleteClick = (entryId: string) => {
     setDeletingEntryId(entryId);
   };
@@ -180,7 +529,7 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
 
     try {
       await deleteMutation.mutateAsync(deletingEntryId);
-      toast.success('Entry deleted successfully');
+      toast.success('Entry moved to trash');
       setDeletingEntryId(null);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to delete entry';
@@ -193,12 +542,190 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
     setDeletingEntryId(null);
   };
 
+  const isSelectable = !!selectedIds && !!onSelectedIdsChange;
+  const selectedCount = entries.filter((entry) => selectedIds?.has(entry.id)).length;
+  const allSelected = entries.length > 0 && selectedCount === entries.length;
+
+  const handleSelectAllChange = (checked: boolean) => {
+    onSelectedIdsChange?.(new Set(checked ? entries.map((entry) => entry.id) : []));
+  };
+
+  const handleSelectChange = (entryId: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(entryId);
+    } else {
+      next.delete(entryId);
+    }
+    onSelectedIdsChange?.(next);
+  };
+
+  const renderSortableHead = (
+    label: string,
+    field: EntrySortField,
+    options: { firstDescending?: boolean; className?: string } = {}
+  ) =>
+    sort && onSortChange ? (
+      <SortableTableHead
+        key={field}
+        label={label}
+        field={field}
+        sort={sort}
+        onSortChange={onSortChange}
+        {...options}
+      />
+    ) : (
+      <TableHead key={field} className={options.className}>{label}</TableHead>
+    );
+
+  const renderColumnHead = (column: EntryColumn | FixedColumn) => {
+    switch (column) {
+      case EntryColumn.manualDate:
+        return renderSortableHead(ENTRY_COLUMN_LABELS[column], EntrySortField.manualDate);
+      case EntryColumn.days:
+        return renderSortableHead(ENTRY_COLUMN_LABELS[column], EntrySortField.days);
+      case EntryColumn.customerName:
+        return renderSortableHead(ENTRY_COLUMN_LABELS[column], EntrySortField.customerName, { firstDescending: false });
+      case EntryColumn.mobileNumber:
+        return <TableHead key={column}>{ENTRY_COLUMN_LABELS[column]}</TableHead>;
+      case EntryColumn.amount:
+        return renderSortableHead(ENTRY_COLUMN_LABELS[column], EntrySortField.amount, { className: 'text-right' });
+      case EntryColumn.createdAt:
+        return renderSortableHead(ENTRY_COLUMN_LABELS[column], EntrySortField.createdAt);
+      case 'status':
+        return <TableHead key={column}>Status</TableHead>;
+      case 'kind':
+        return <TableHead key={column}>Type</TableHead>;
+      case 'category':
+        return <TableHead key={column}>Category</TableHead>;
+      case 'outstanding':
+        return <TableHead key={column} className="text-right">Outstanding (Rs.)</TableHead>;
+    }
+  };
+
+  const renderColumnCell = (entry: Entry, column: EntryColumn | FixedColumn) => {
+    switch (column) {
+      case EntryColumn.manualDate:
+        return renderEditableCell(entry, 'manualDate', formatDate(entry.manualDate), {
+          type: 'date',
+          className: 'font-medium',
+        });
+      case EntryColumn.days:
+        return (
+          <TableCell key={column} className="font-medium text-primary">
+            {formatDaysSince(entry)}
+          </TableCell>
+        );
+      case EntryColumn.customerName:
+        return renderEditableCell(
+          entry,
+          'customerName',
+          <>
+            {/* Customer pages come from the caller's own directory */}
+            {entry.owner?.toText() === identity?.getPrincipal().toText() ? (
+              <Link
+                to="/customers/$mobileNumber"
+                params={{ mobileNumber: normalizeMobileNumber(entry.mobileNumber) }}
+                className="hover:text-primary hover:underline"
+              >
+                {entry.customerName}
+              </Link>
+            ) : (
+              entry.customerName
+            )}
+            {entry.notes && (
+              <StickyNote
+                className="inline h-3.5 w-3.5 ml-1.5 text-muted-foreground"
+                aria-label="Has notes"
+              />
+            )}
+          </>
+        );
+      case EntryColumn.mobileNumber:
+        return renderEditableCell(entry, 'mobileNumber', entry.mobileNumber, { type: 'tel' });
+      case EntryColumn.amount:
+        return renderEditableCell(entry, 'amountRs', formatPaise(getSignedAmountPaise(entry)), {
+          inputMode: 'decimal',
+          className: 'text-right font-medium',
+        });
+      case EntryColumn.createdAt:
+        return (
+          <TableCell key={column} className="text-muted-foreground">
+            {formatTimestamp(entry.createdAt)}
+          </TableCell>
+        );
+      case 'status':
+        return (
+          <TableCell key={column}>
+            <PaymentStatusBadge status={entry.status} settledDate={entry.settledDate} />
+          </TableCell>
+        );
+      case 'kind':
+        return <TableCell key={column}>{ENTRY_KIND_LABELS[entry.kind]}</TableCell>;
+      case 'category':
+        return (
+          <TableCell key={column}>
+            <span className={entry.categoryId === undefined ? 'text-muted-foreground' : undefined}>
+              {getCategoryName(categories, entry.categoryId)}
+            </span>
+            {entry.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {entry.tags.map((tag) => (
+                  <Badge key={tag} variant="outline" className="px-1.5 py-0 text-xs font-normal">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </TableCell>
+        );
+      case 'outstanding':
+        return (
+          <TableCell key={column} className="text-right">
+            {formatPaise(getOutstandingPaise(entry))}
+          </TableCell>
+        );
+    }
+  };
+
+  const cardHeader = (
+    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+      <CardTitle>Saved Entries</CardTitle>
+      <div className="flex items-center gap-4">
+        {canShowAllUsers && onShowAllUsersChange && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="show-all-users"
+              checked={!!showAllUsers}
+              onCheckedChange={onShowAllUsersChange}
+            />
+            <Label htmlFor="show-all-users" className="text-sm font-normal">
+              All users
+            </Label>
+          </div>
+        )}
+        {headerActions}
+        {onColumnsChange && <EntryColumnsMenu columns={columns} onChange={onColumnsChange} />}
+        {onOpenCategories && (
+          <Button variant="outline" size="sm" onClick={onOpenCategories}>
+            <Tags className="h-4 w-4 mr-2" />
+            Categories
+          </Button>
+        )}
+        {onOpenTrash && (
+          <Button variant="outline" size="sm" onClick={onOpenTrash}>
+            <Trash className="h-4 w-4 mr-2" />
+            Trash
+          </Button>
+        )}
+      </div>
+    </CardHeader>
+  );
+
   if (isLoading) {
     return (
       <Card>
-        <CardHeader>
-          <CardTitle>Saved Entries</CardTitle>
-        </CardHeader>
+        {cardHeader}
         <CardContent>
           <div className="flex items-center justify-center py-8 text-muted-foreground">
             Loading entries...
@@ -212,9 +739,7 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
   if (error) {
     return (
       <Card>
-        <CardHeader>
-          <CardTitle>Saved Entries</CardTitle>
-        </CardHeader>
+        {cardHeader}
         <CardContent>
           <div className="flex flex-col items-center justify-center py-12 text-center">
             <div className="rounded-full bg-destructive/10 p-3 mb-4">
@@ -238,9 +763,7 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
   if (entries.length === 0) {
     return (
       <Card>
-        <CardHeader>
-          <CardTitle>Saved Entries</CardTitle>
-        </CardHeader>
+        {cardHeader}
         <CardContent>
           <div className="flex flex-col items-center justify-center py-12 text-center">
             <div className="rounded-full bg-muted p-3 mb-4">
@@ -260,7 +783,11 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
               </svg>
             </div>
             <p className="text-muted-foreground">
-              No entries yet. Submit the form above to create your first entry.
+              {isFiltered
+                ? 'No entries match the current filters.'
+                : showAllUsers
+                ? 'No entries have been saved by any user yet.'
+                : 'No entries yet. Submit the form above to create your first entry.'}
             </p>
           </div>
         </CardContent>
@@ -271,42 +798,83 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
   return (
     <>
       <Card>
-        <CardHeader>
-          <CardTitle>Saved Entries</CardTitle>
-        </CardHeader>
+        {cardHeader}
         <CardContent>
-          <div className="rounded-md border overflow-x-auto">
-            <Table>
-              <TableHeader>
+          {/* The table element is used directly: the Table wrapper would become the
+              nearest scroll container and keep the header from sticking */}
+          <div ref={virtualRows.scrollRef} className="max-h-[70vh] overflow-auto rounded-md border">
+            <table className="w-full caption-bottom text-sm">
+              <TableHeader className="sticky top-0 z-10 bg-card shadow-[0_1px_0_hsl(var(--border))]">
                 <TableRow>
-                  <TableHead>Manual Date</TableHead>
-                  <TableHead>DAYS</TableHead>
-                  <TableHead>Customer Name</TableHead>
-                  <TableHead>Mobile Number</TableHead>
-                  <TableHead className="text-right">Amount (Rs.)</TableHead>
-                  <TableHead>Created At</TableHead>
+                  {isSelectable && (
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected ? true : selectedCount > 0 ? 'indeterminate' : false}
+                        onCheckedChange={(checked) => handleSelectAllChange(checked === true)}
+                        aria-label="Select all loaded entries"
+                      />
+                    </TableHead>
+                  )}
+                  <TableHead>Receipt No.</TableHead>
+                  {tableColumns.map(renderColumnHead)}
+                  {showAllUsers && <TableHead>Owner</TableHead>}
                   <TableHead className="text-center">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {entries.map((entry) => (
-                  <TableRow key={entry.id}>
-                    <TableCell className="font-medium">
-                      {formatDate(entry.manualDate)}
-                    </TableCell>
-                    <TableCell className="font-medium text-primary">
-                      {formatDaysSince(entry.manualDate)}
-                    </TableCell>
-                    <TableCell>{entry.customerName}</TableCell>
-                    <TableCell>{entry.mobileNumber}</TableCell>
-                    <TableCell className="text-right font-medium">
-                      {formatAmount(entry.amountRs)}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground">
-                      {formatTimestamp(entry.createdAt)}
+                {virtualRows.paddingTop > 0 && <tr aria-hidden="true" style={{ height: virtualRows.paddingTop }} />}
+                {visibleEntries.map((entry) => (
+                  <TableRow
+                    key={entry.id}
+                    ref={virtualRows.measureRow}
+                    data-row-key={entry.id}
+                    data-state={selectedIds?.has(entry.id) ? 'selected' : undefined}
+                  >
+                    {isSelectable && (
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.has(entry.id)}
+                          onCheckedChange={(checked) => handleSelectChange(entry.id, checked === true)}
+                          aria-label={`Select entry ${entry.receiptNumber || entry.id}`}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {entry.receiptNumber || '—'}
                     </TableCell>
+                    {tableColumns.map((column) => renderColumnCell(entry, column))}
+                    {showAllUsers && (
+                      <TableCell className="text-muted-foreground" title={entry.owner?.toText()}>
+                        {formatPrincipal(entry.owner, identity?.getPrincipal())}
+                      </TableCell>
+                    )}
                     <TableCell>
                       <div className="flex items-center justify-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDetailsEntry(entry)}
+                          aria-label="View details"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHistoryEntry(entry)}
+                          aria-label="View history"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPaymentsEntryId(entry.id)}
+                          disabled={entry.kind === EntryKind.credit}
+                          aria-label="Payments"
+                        >
+                          <Wallet className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -327,8 +895,20 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
                     </TableCell>
                   </TableRow>
                 ))}
+                {virtualRows.paddingBottom > 0 && (
+                  <tr aria-hidden="true" style={{ height: virtualRows.paddingBottom }} />
+                )}
               </TableBody>
-            </Table>
+            </table>
+            {/* Inside the scrolling box, so it is reached by scrolling the rows */}
+            {hasMore && (
+              <div ref={loadMoreRef} className="flex justify-center py-4">
+                <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoadingMore}>
+                  {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {isLoadingMore ? 'Loading more...' : 'Load more'}
+                </Button>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -337,89 +917,201 @@ export function EntriesTable({ entries, isLoading, error, onSignIn }: EntriesTab
       <Dialog open={!!editingEntry} onOpenChange={(open) => !open && handleEditClose()}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
-            <DialogTitle>Edit Entry</DialogTitle>
+            <DialogTitle>{conflictEntry ? 'Edit Conflict' : 'Edit Entry'}</DialogTitle>
             <DialogDescription>
-              Update the entry details below. Created At cannot be changed.
+              {conflictEntry
+                ? 'Your changes were not saved because the entry was updated by someone else.'
+                : 'Update the entry details below. Created At cannot be changed.'}
             </DialogDescription>
           </DialogHeader>
-          <div className="grid gap-4 py-4">
-            <div className="grid gap-2">
-              <Label htmlFor="edit-manualDate">Manual Date</Label>
-              <Input
-                id="edit-manualDate"
-                type="date"
-                value={editForm.manualDate}
-                onChange={(e) => setEditForm({ ...editForm, manualDate: e.target.value })}
-                disabled={updateMutation.isPending}
-              />
-            </div>
-            <div className="grid gap-2">
-              <Label htmlFor="edit-customerName">Customer Name</Label>
-              <Input
-                id="edit-customerName"
-                type="text"
-                value={editForm.customerName}
-                onChange={(e) => setEditForm({ ...editForm, customerName: e.target.value })}
-                disabled={updateMutation.isPending}
-              />
-            </div>
-            <div className="grid gap-2">
-              <Label htmlFor="edit-mobileNumber">Mobile Number</Label>
-              <Input
-                id="edit-mobileNumber"
-                type="text"
-                value={editForm.mobileNumber}
-                onChange={(e) => setEditForm({ ...editForm, mobileNumber: e.target.value })}
-                disabled={updateMutation.isPending}
-              />
-            </div>
-            <div className="grid gap-2">
-              <Label htmlFor="edit-amountRs">Amount (Rs.)</Label>
-              <Input
-                id="edit-amountRs"
-                type="number"
-                value={editForm.amountRs}
-                onChange={(e) => setEditForm({ ...editForm, amountRs: e.target.value })}
-                disabled={updateMutation.isPending}
-              />
-            </div>
-            {editingEntry && (
-              <div className="grid gap-2">
-                <Label className="text-muted-foreground">Created At (Read-only)</Label>
-                <div className="text-sm text-muted-foreground">
-                  {formatTimestamp(editingEntry.createdAt)}
+          {conflictEntry ? (
+            <EntryConflictView
+              yours={editForm}
+              current={conflictEntry}
+              isSaving={updateMutation.isPending}
+              onUseCurrent={handleConflictUseCurrent}
+              onKeepYours={handleConflictKeepYours}
+            />
+          ) : (
+            <>
+              <div className="grid gap-4 py-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-manualDate">Manual Date</Label>
+                  <Input
+                    id="edit-manualDate"
+                    type="date"
+                    value={editForm.manualDate}
+                    onChange={(e) => setEditForm({ ...editForm, manualDate: e.target.value })}
+                    disabled={updateMutation.isPending}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-customerName">Customer Name</Label>
+                  <Input
+                    id="edit-customerName"
+                    type="text"
+                    value={editForm.customerName}
+                    onChange={(e) => setEditForm({ ...editForm, customerName: e.target.value })}
+                    disabled={updateMutation.isPending}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-mobileNumber">Mobile Number</Label>
+                  <Input
+                    id="edit-mobileNumber"
+                    type="text"
+                    value={editForm.mobileNumber}
+                    onChange={(e) => setEditForm({ ...editForm, mobileNumber: e.target.value })}
+                    disabled={updateMutation.isPending}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="edit-amountRs">Amount (Rs.)</Label>
+                    <Input
+                      id="edit-amountRs"
+                      type="number"
+                      step="0.01"
+                      value={editForm.amountRs}
+                      onChange={(e) => setEditForm({ ...editForm, amountRs: e.target.value })}
+                      disabled={updateMutation.isPending}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="edit-kind">Type</Label>
+                    <Select
+                      value={editForm.kind}
+                      onValueChange={(value) => setEditForm({ ...editForm, kind: value as EntryKind })}
+                      disabled={updateMutation.isPending || (!!editingEntry && editingEntry.payments.length > 0)}
+                    >
+                      <SelectTrigger id="edit-kind">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ENTRY_KINDS.map((kind) => (
+                          <SelectItem key={kind} value={kind}>
+                            {ENTRY_KIND_LABELS[kind]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="edit-status">Status</Label>
+                    <Select
+                      value={editForm.status}
+                      onValueChange={handleStatusChange}
+                      disabled={updateMutation.isPending}
+                    >
+                      <SelectTrigger id="edit-status">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAYMENT_STATUSES.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {PAYMENT_STATUS_LABELS[status]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {isSettledStatus(editForm.status) && (
+                    <div className="grid gap-2">
+                      <Label htmlFor="edit-settledDate">Settled Date</Label>
+                      <Input
+                        id="edit-settledDate"
+                        type="date"
+                        value={editForm.settledDate}
+                        onChange={(e) => setEditForm({ ...editForm, settledDate: e.target.value })}
+                        disabled={updateMutation.isPending}
+                      />
+                    </div>
+                  )}
+                  {editingEntry && editingEntry.payments.length > 0 && (
+                    <p className="col-span-2 text-xs text-muted-foreground">
+                      Status follows the recorded payments unless the entry is written off.
+                    </p>
+                  )}
                 </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-categoryId">Category</Label>
+                  <CategorySelect
+                    id="edit-categoryId"
+                    value={editForm.categoryId}
+                    onChange={(categoryId) => setEditForm({ ...editForm, categoryId })}
+                    noneLabel={UNCATEGORIZED_LABEL}
+                    disabled={updateMutation.isPending}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-tags">Tags</Label>
+                  <TagsInput
+                    id="edit-tags"
+                    value={editForm.tags}
+                    onChange={(tags) => setEditForm({ ...editForm, tags })}
+                    disabled={updateMutation.isPending}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-notes">Notes</Label>
+                  <Textarea
+                    id="edit-notes"
+                    rows={3}
+                    value={editForm.notes}
+                    onChange={(e) => setEditForm({ ...editForm, notes: e.target.value })}
+                    disabled={updateMutation.isPending}
+                  />
+                </div>
+                {editingEntry && (
+                  <div className="grid gap-2">
+                    <Label className="text-muted-foreground">Created At (Read-only)</Label>
+                    <div className="text-sm text-muted-foreground">
+                      {formatTimestamp(editingEntry.createdAt)}
+                    </div>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={handleEditClose}
-              disabled={updateMutation.isPending}
-            >
-              Cancel
-            </Button>
-            <Button
-              onClick={handleEditSave}
-              disabled={updateMutation.isPending}
-            >
-              {updateMutation.isPending && (
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              )}
-              Save Changes
-            </Button>
-          </DialogFooter>
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={handleEditClose}
+                  disabled={updateMutation.isPending}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleEditSave}
+                  disabled={updateMutation.isPending}
+                >
+                  {updateMutation.isPending && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  Save Changes
+                </Button>
+              </DialogFooter>
+            </>
+          )}
         </DialogContent>
       </Dialog>
 
+      {/* Payments */}
+      <PaymentsDialog entry={paymentsEntry} onClose={() => setPaymentsEntryId(null)} />
+
+      {/* Entry Details */}
+      <EntryDetailsPanel entry={detailsEntry} onClose={() => setDetailsEntry(null)} />
+
+      {/* Revision History */}
+      <EntryHistoryPanel entry={historyEntry} onClose={() => setHistoryEntry(null)} />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deletingEntryId} onOpenChange={(open) => !open && handleDeleteCancel()}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Entry</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this entry? This action is permanent and cannot be undone.
+              Are you sure you want to delete this entry? It will be moved to the trash, where it can be restored until it is purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
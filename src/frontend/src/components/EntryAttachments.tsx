@@ -0,0 +1,188 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Download, FileText, Loader2, Paperclip, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Attachment } from '../backend';
+import {
+  useAddAttachment,
+  useListAttachments,
+  useRemoveAttachment,
+} from '../features/attachments/queries';
+import {
+  ATTACHMENT_ACCEPT,
+  formatFileSize,
+  isImageAttachment,
+  validateAttachmentFile,
+} from '../utils/attachments';
+
+interface EntryAttachmentsProps {
+  entryId: string;
+}
+
+interface PendingUpload {
+  key: number;
+  fileName: string;
+  progress: number;
+}
+
+/**
+ * Photos and PDFs of bills or cheques attached to an entry, with uploads
+ * that show their progress and downloads under the original file name.
+ */
+export function EntryAttachments({ entryId }: EntryAttachmentsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const nextUploadKey = useRef(0);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+
+  const { data: attachments = [], isLoading, error } = useListAttachments(entryId);
+  const addMutation = useAddAttachment();
+  const removeMutation = useRemoveAttachment();
+
+  const uploadFile = async (file: File) => {
+    const key = nextUploadKey.current++;
+    setUploads((current) => [...current, { key, fileName: file.name, progress: 0 }]);
+    try {
+      await addMutation.mutateAsync({
+        entryId,
+        file,
+        onProgress: (progress) =>
+          setUploads((current) =>
+            current.map((upload) => (upload.key === key ? { ...upload, progress } : upload))
+          ),
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to attach ${file.name}`);
+    } finally {
+      setUploads((current) => current.filter((upload) => upload.key !== key));
+    }
+  };
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Clear the input so the same file can be picked again
+    e.target.value = '';
+
+    const accepted: File[] = [];
+    for (const file of files) {
+      const validation = validateAttachmentFile(file);
+      if (validation.isValid) {
+        accepted.push(file);
+      } else {
+        toast.error(validation.error);
+      }
+    }
+
+    await Promise.all(accepted.map(uploadFile));
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const bytes = await attachment.blob.getBytes();
+      const url = URL.createObjectURL(new Blob([bytes], { type: attachment.contentType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.fileName;
+      link.click();
+      // Revoking straight away can cancel the download before the browser starts it
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download file');
+    }
+  };
+
+  const handleRemove = async (attachment: Attachment) => {
+    try {
+      await removeMutation.mutateAsync({ entryId, attachmentId: attachment.id });
+      toast.success('Attachment removed');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove attachment');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Attachments</p>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Paperclip className="mr-2 h-4 w-4" />
+          Attach
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={handleFilesSelected}
+        />
+      </div>
+
+      {uploads.map((upload) => (
+        <div key={upload.key} className="space-y-1 rounded-md border p-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            <span className="flex-1 truncate">{upload.fileName}</span>
+            <span className="text-muted-foreground">{Math.round(upload.progress)}%</span>
+          </div>
+          <Progress value={upload.progress} />
+        </div>
+      ))}
+
+      {isLoading ? (
+        <p className="py-2 text-sm text-muted-foreground">Loading attachments...</p>
+      ) : error ? (
+        <p className="py-2 text-sm text-muted-foreground">{error.message || 'Unable to load attachments'}</p>
+      ) : attachments.length === 0 && uploads.length === 0 ? (
+        <p className="rounded-md border p-3 text-sm text-muted-foreground">No bills or receipts attached.</p>
+      ) : (
+        <ul className="grid grid-cols-2 gap-2">
+          {attachments.map((attachment) => (
+            <li key={attachment.id.toString()} className="overflow-hidden rounded-md border text-sm">
+              <button
+                type="button"
+                onClick={() => handleDownload(attachment)}
+                className="flex h-24 w-full items-center justify-center bg-muted/50"
+                aria-label={`Download ${attachment.fileName}`}
+              >
+                {isImageAttachment(attachment.contentType) ? (
+                  <img
+                    src={attachment.blob.getDirectURL()}
+                    alt={attachment.fileName}
+                    loading="lazy"
+                    className="h-full w-full object-cover"
+                  />
+                ) : (
+                  <FileText className="h-10 w-10 text-muted-foreground" />
+                )}
+              </button>
+              <div className="flex items-center gap-1 p-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate" title={attachment.fileName}>{attachment.fileName}</p>
+                  <p className="text-xs text-muted-foreground">{formatFileSize(attachment.sizeBytes)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDownload(attachment)}
+                  aria-label="Download attachment"
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(attachment)}
+                  disabled={removeMutation.isPending}
+                  aria-label="Remove attachment"
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
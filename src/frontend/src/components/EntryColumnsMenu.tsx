@@ -0,0 +1,92 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ChevronDown, ChevronUp, Columns3, RotateCcw } from 'lucide-react';
+import type { EntryColumnSetting } from '../backend';
+import { DEFAULT_ENTRY_COLUMN_LAYOUT, ENTRY_COLUMN_LABELS, isSameEntryColumnLayout } from '../utils/entryColumns';
+
+interface EntryColumnsMenuProps {
+  columns: EntryColumnSetting[];
+  onChange: (columns: EntryColumnSetting[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Shows, hides and reorders the entries table columns. At least one of them
+ * stays visible.
+ */
+export function EntryColumnsMenu({ columns, onChange, disabled }: EntryColumnsMenuProps) {
+  const visibleCount = columns.filter((setting) => setting.visible).length;
+
+  const handleVisibleChange = (index: number, visible: boolean) => {
+    onChange(columns.map((setting, i) => (i === index ? { ...setting, visible } : setting)));
+  };
+
+  const handleMove = (index: number, move: 1 | -1) => {
+    const next = [...columns];
+    [next[index], next[index + move]] = [next[index + move], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Columns3 className="h-4 w-4 mr-2" />
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-2">
+        <ul className="space-y-1 text-sm">
+          {columns.map((setting, index) => {
+            const id = `entry-column-${setting.column}`;
+            const label = ENTRY_COLUMN_LABELS[setting.column];
+            return (
+              <li key={setting.column} className="flex items-center gap-2 rounded-sm px-2 py-1 hover:bg-muted/50">
+                <Checkbox
+                  id={id}
+                  checked={setting.visible}
+                  onCheckedChange={(checked) => handleVisibleChange(index, checked === true)}
+                  disabled={setting.visible && visibleCount === 1}
+                />
+                <label htmlFor={id} className="flex-1 cursor-pointer">
+                  {label}
+                </label>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${label} up`}
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === columns.length - 1}
+                  aria-label={`Move ${label} down`}
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-1 w-full justify-start"
+          onClick={() => onChange(DEFAULT_ENTRY_COLUMN_LAYOUT)}
+          disabled={isSameEntryColumnLayout(columns, DEFAULT_ENTRY_COLUMN_LAYOUT)}
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset to default
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,136 @@
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import type { Category, Entry, EntryKind, PaymentStatus } from '../backend';
+import { useListCategories } from '../features/categories/queries';
+import { formatPaiseAsDecimal } from '../utils/amount';
+import { getCategoryName, formatTags } from '../utils/categories';
+import { ENTRY_KIND_LABELS } from '../utils/entryKind';
+import { PAYMENT_STATUS_LABELS, isSettledStatus } from '../utils/paymentStatus';
+
+export interface EntryEditValues {
+  manualDate: string;
+  customerName: string;
+  mobileNumber: string;
+  amountRs: string;
+  kind: EntryKind;
+  status: PaymentStatus;
+  settledDate: string;
+  notes: string;
+  // Category id as a string; empty for uncategorized
+  categoryId: string;
+  tags: string[];
+}
+
+const CONFLICT_FIELDS: Array<{ key: keyof EntryEditValues; label: string }> = [
+  { key: 'manualDate', label: 'Manual Date' },
+  { key: 'customerName', label: 'Customer Name' },
+  { key: 'mobileNumber', label: 'Mobile Number' },
+  { key: 'amountRs', label: 'Amount (Rs.)' },
+  { key: 'kind', label: 'Type' },
+  { key: 'status', label: 'Status' },
+  { key: 'settledDate', label: 'Settled Date' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'categoryId', label: 'Category' },
+  { key: 'tags', label: 'Tags' },
+];
+
+export function entryToEditValues(entry: Entry): EntryEditValues {
+  return {
+    manualDate: entry.manualDate,
+    customerName: entry.customerName,
+    mobileNumber: entry.mobileNumber,
+    amountRs: formatPaiseAsDecimal(entry.amountPaise),
+    kind: entry.kind,
+    status: entry.status,
+    settledDate: entry.settledDate ?? '',
+    notes: entry.notes,
+    categoryId: entry.categoryId?.toString() ?? '',
+    tags: entry.tags,
+  };
+}
+
+// Open entries have no settled date, whatever was last typed into the field
+function displayValue(values: EntryEditValues, key: keyof EntryEditValues, categories: Category[]): string {
+  if (key === 'categoryId') {
+    return getCategoryName(categories, values.categoryId ? BigInt(values.categoryId) : undefined);
+  }
+  if (key === 'tags') {
+    return formatTags(values.tags);
+  }
+  if (key === 'kind') {
+    return ENTRY_KIND_LABELS[values.kind];
+  }
+  if (key === 'status') {
+    return PAYMENT_STATUS_LABELS[values.status];
+  }
+  if (key === 'settledDate' && !isSettledStatus(values.status)) {
+    return '';
+  }
+  return values[key];
+}
+
+interface EntryConflictViewProps {
+  yours: EntryEditValues;
+  current: Entry;
+  isSaving?: boolean;
+  onUseCurrent: () => void;
+  onKeepYours: () => void;
+}
+
+/**
+ * Shown in the edit dialog when a save was rejected because someone else
+ * changed the entry first. Compares the user's values with the stored ones
+ * and lets them either take the current values or save their own over them.
+ */
+export function EntryConflictView({ yours, current, isSaving, onUseCurrent, onKeepYours }: EntryConflictViewProps) {
+  const theirs = entryToEditValues(current);
+  const { data: categories = [] } = useListCategories();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-3 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm">
+        <AlertTriangle className="h-5 w-5 shrink-0 text-destructive" />
+        <p>
+          This entry was changed by someone else while you were editing it. Review the differences
+          below before saving.
+        </p>
+      </div>
+
+      <div className="rounded-md border overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className="p-2 text-left font-medium">Field</th>
+              <th className="p-2 text-left font-medium">Your changes</th>
+              <th className="p-2 text-left font-medium">Current value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {CONFLICT_FIELDS.map(({ key, label }) => {
+              const yourValue = displayValue(yours, key, categories);
+              const theirValue = displayValue(theirs, key, categories);
+              const differs = yourValue !== theirValue;
+              return (
+                <tr key={key} className={differs ? 'bg-destructive/5' : undefined}>
+                  <td className="p-2 text-muted-foreground">{label}</td>
+                  <td className={differs ? 'p-2 font-medium whitespace-pre-wrap' : 'p-2 whitespace-pre-wrap'}>{yourValue || '—'}</td>
+                  <td className={differs ? 'p-2 font-medium whitespace-pre-wrap' : 'p-2 whitespace-pre-wrap'}>{theirValue || '—'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+        <Button variant="outline" onClick={onUseCurrent} disabled={isSaving}>
+          Use current values
+        </Button>
+        <Button onClick={onKeepYours} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save my changes
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import type { Entry } from '../backend';
+import { PaymentStatusBadge } from './PaymentStatusBadge';
+import { EntryAttachments } from './EntryAttachments';
+import { useListCategories } from '../features/categories/queries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { calculateDaysSince } from '../utils/date';
+import { formatPrincipal } from '../utils/principal';
+import { formatPaise } from '../utils/amount';
+import { getCategoryName } from '../utils/categories';
+import { ENTRY_KIND_LABELS, getSignedAmountPaise } from '../utils/entryKind';
+import { getOutstandingPaise } from '../utils/payments';
+
+interface EntryDetailsPanelProps {
+  entry: Entry | null;
+  onClose: () => void;
+}
+
+/**
+ * Side panel with every field of one entry, including its notes in full
+ * and the bills or receipts attached to it.
+ */
+export function EntryDetailsPanel({ entry, onClose }: EntryDetailsPanelProps) {
+  const { identity } = useInternetIdentity();
+  const { data: categories = [] } = useListCategories();
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const formatTimestamp = (timestamp: bigint) => {
+    // Convert nanoseconds to milliseconds
+    const date = new Date(Number(timestamp / BigInt(1_000_000)));
+    return date.toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <Sheet open={!!entry} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Entry Details</SheetTitle>
+          <SheetDescription>
+            {entry ? `${entry.customerName}'s entry of ${formatDate(entry.manualDate)}.` : ''}
+          </SheetDescription>
+        </SheetHeader>
+
+        {entry && (
+          <div className="px-4 pb-4 space-y-4">
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Receipt No.</dt>
+              <dd>{entry.receiptNumber || '—'}</dd>
+              <dt className="text-muted-foreground">Manual Date</dt>
+              <dd>{formatDate(entry.manualDate)}</dd>
+              <dt className="text-muted-foreground">DAYS</dt>
+              <dd>{calculateDaysSince(entry.manualDate, entry.settledDate) ?? 'N/A'}</dd>
+              <dt className="text-muted-foreground">Customer Name</dt>
+              <dd>{entry.customerName}</dd>
+              <dt className="text-muted-foreground">Mobile Number</dt>
+              <dd>{entry.mobileNumber}</dd>
+              <dt className="text-muted-foreground">Type</dt>
+              <dd>{ENTRY_KIND_LABELS[entry.kind]}</dd>
+              <dt className="text-muted-foreground">Amount</dt>
+              <dd className="font-medium">{formatPaise(getSignedAmountPaise(entry))}</dd>
+              <dt className="text-muted-foreground">Outstanding</dt>
+              <dd>{formatPaise(getOutstandingPaise(entry))}</dd>
+              <dt className="text-muted-foreground">Status</dt>
+              <dd>
+                <PaymentStatusBadge status={entry.status} settledDate={entry.settledDate} />
+              </dd>
+              <dt className="text-muted-foreground">Category</dt>
+              <dd>{getCategoryName(categories, entry.categoryId)}</dd>
+              <dt className="text-muted-foreground">Tags</dt>
+              <dd>
+                {entry.tags.length === 0 ? (
+                  '—'
+                ) : (
+                  <div className="flex flex-wrap gap-1">
+                    {entry.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+              </dd>
+              <dt className="text-muted-foreground">Created At</dt>
+              <dd>{formatTimestamp(entry.createdAt)}</dd>
+              <dt className="text-muted-foreground">Owner</dt>
+              <dd title={entry.owner?.toText()}>{formatPrincipal(entry.owner, identity?.getPrincipal())}</dd>
+            </dl>
+
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">Notes</p>
+              <p className="rounded-md border p-3 text-sm whitespace-pre-wrap">{entry.notes || '—'}</p>
+            </div>
+
+            <EntryAttachments entryId={entry.id} />
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,174 @@
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight } from 'lucide-react';
+import { EntryChange, type Entry, type EntryRevision } from '../backend';
+import { useEntryHistory } from '../features/entries/queries';
+import { useListCategories } from '../features/categories/queries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { formatPrincipal } from '../utils/principal';
+import { formatPaise } from '../utils/amount';
+import { getCategoryName, formatTags } from '../utils/categories';
+import { ENTRY_KIND_LABELS } from '../utils/entryKind';
+import { PAYMENT_STATUS_LABELS } from '../utils/paymentStatus';
+
+type RevisionField =
+  | 'manualDate'
+  | 'customerName'
+  | 'mobileNumber'
+  | 'amountPaise'
+  | 'paidPaise'
+  | 'kind'
+  | 'status'
+  | 'settledDate'
+  | 'notes'
+  | 'categoryId'
+  | 'tags';
+
+const REVISION_FIELDS: Array<{ key: RevisionField; label: string }> = [
+  { key: 'manualDate', label: 'Manual Date' },
+  { key: 'customerName', label: 'Customer Name' },
+  { key: 'mobileNumber', label: 'Mobile Number' },
+  { key: 'amountPaise', label: 'Amount (Rs.)' },
+  { key: 'paidPaise', label: 'Paid (Rs.)' },
+  { key: 'kind', label: 'Type' },
+  { key: 'status', label: 'Status' },
+  { key: 'settledDate', label: 'Settled Date' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'categoryId', label: 'Category' },
+  { key: 'tags', label: 'Tags' },
+];
+
+const CHANGE_LABELS: Record<EntryChange, string> = {
+  [EntryChange.created]: 'Created',
+  [EntryChange.updated]: 'Updated',
+  [EntryChange.deleted]: 'Moved to trash',
+  [EntryChange.restored]: 'Restored',
+};
+
+interface EntryHistoryPanelProps {
+  entry: Entry | null;
+  onClose: () => void;
+}
+
+/**
+ * Side panel listing an entry's revisions, newest first, with the fields
+ * each revision changed compared to the one before it.
+ */
+export function EntryHistoryPanel({ entry, onClose }: EntryHistoryPanelProps) {
+  const { identity } = useInternetIdentity();
+  const { data: revisions = [], isLoading, error } = useEntryHistory(entry?.id ?? null);
+  const { data: categories = [] } = useListCategories();
+
+  const formatTimestamp = (timestamp: bigint) => {
+    // Convert nanoseconds to milliseconds
+    const date = new Date(Number(timestamp / BigInt(1_000_000)));
+    return date.toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatValue = (revision: EntryRevision, field: RevisionField) => {
+    if (field === 'categoryId') {
+      return getCategoryName(categories, revision.categoryId);
+    }
+    if (field === 'tags') {
+      return formatTags(revision.tags) || '—';
+    }
+    if (field === 'amountPaise' || field === 'paidPaise') {
+      return formatPaise(revision[field]);
+    }
+    if (field === 'kind') {
+      return ENTRY_KIND_LABELS[revision.kind];
+    }
+    if (field === 'status') {
+      return PAYMENT_STATUS_LABELS[revision.status];
+    }
+    return revision[field] || '—';
+  };
+
+  // Oldest-first from the backend; shown newest first, each diffed against its predecessor.
+  // Fields are compared as displayed, since tags are arrays.
+  const items = revisions
+    .map((revision, i) => {
+      const previous = i > 0 ? revisions[i - 1] : null;
+      const changedFields = previous
+        ? REVISION_FIELDS.filter(({ key }) => formatValue(previous, key) !== formatValue(revision, key))
+        : [];
+      return { revision, previous, changedFields, number: i + 1 };
+    })
+    .reverse();
+
+  return (
+    <Sheet open={!!entry} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Entry History</SheetTitle>
+          <SheetDescription>
+            {entry ? `Changes to ${entry.customerName}'s entry, newest first.` : ''}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-4 space-y-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading history...</p>
+          ) : error ? (
+            <p className="form-error">{error.message || 'Unable to load history'}</p>
+          ) : (
+            items.map(({ revision, previous, changedFields, number }) => (
+              <div key={number} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant={revision.change === EntryChange.deleted ? 'destructive' : 'secondary'}>
+                    {CHANGE_LABELS[revision.change]}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">#{number}</span>
+                </div>
+                <p className="text-xs text-muted-foreground" title={revision.changedBy?.toText()}>
+                  {formatTimestamp(revision.changedAt)} by{' '}
+                  {formatPrincipal(revision.changedBy, identity?.getPrincipal())}
+                </p>
+
+                {revision.change === EntryChange.created && (
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                    {REVISION_FIELDS.map(({ key, label }) => (
+                      <div key={key} className="contents">
+                        <dt className="text-muted-foreground">{label}</dt>
+                        <dd className="whitespace-pre-wrap">{formatValue(revision, key)}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+
+                {previous && revision.change === EntryChange.updated && (
+                  changedFields.length > 0 ? (
+                    <ul className="space-y-1 text-sm">
+                      {changedFields.map(({ key, label }) => (
+                        <li key={key}>
+                          <span className="text-muted-foreground">{label}: </span>
+                          <span className="line-through text-muted-foreground">{formatValue(previous, key)}</span>
+                          <ArrowRight className="inline h-3 w-3 mx-1" />
+                          <span className="font-medium">{formatValue(revision, key)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No field changes</p>
+                  )
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
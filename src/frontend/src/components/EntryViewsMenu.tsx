@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Bookmark, Check, Loader2, Plus, Save, Settings2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { EntryColumnSetting, EntryView } from '../backend';
+import { searchFiltersFromEntryFilter, type EntrySearchFilters } from '../features/entries/queries';
+import { useDeleteEntryView, useListEntryViews, useSaveEntryView } from '../features/entryViews/queries';
+import { isSameEntryColumnLayout } from '../utils/entryColumns';
+import { isSameEntrySearch } from '../utils/entrySearchParams';
+import { validateRequired } from '../utils/validation';
+
+interface EntryViewsMenuProps {
+  // Current layout, filters and sort of the entries table
+  columns: EntryColumnSetting[];
+  filters: EntrySearchFilters;
+  onApply: (columns: EntryColumnSetting[], filters: EntrySearchFilters) => void;
+  disabled?: boolean;
+}
+
+function isCurrentView(view: EntryView, columns: EntryColumnSetting[], filters: EntrySearchFilters): boolean {
+  return (
+    isSameEntryColumnLayout(view.columns, columns) &&
+    isSameEntrySearch(searchFiltersFromEntryFilter(view.filter, view.sort), filters)
+  );
+}
+
+/**
+ * The caller's saved views of the entries table, each a named column layout,
+ * filter and sort such as "Overdue > 30 days". Picking one applies it; the
+ * manage dialog saves the current table as a view, replaces a view with it or
+ * deletes views.
+ */
+export function EntryViewsMenu({ columns, filters, onApply, disabled }: EntryViewsMenuProps) {
+  const [isManageOpen, setIsManageOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const { data: views = [], isLoading, error } = useListEntryViews();
+  const saveMutation = useSaveEntryView();
+  const deleteMutation = useDeleteEntryView();
+  const isSaving = saveMutation.isPending || deleteMutation.isPending;
+
+  const handleApply = (view: EntryView) => {
+    onApply(view.columns, searchFiltersFromEntryFilter(view.filter, view.sort));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const nameValidation = validateRequired(name, 'View name');
+    if (!nameValidation.isValid) {
+      toast.error(nameValidation.error);
+      return;
+    }
+
+    try {
+      await saveMutation.mutateAsync({ name, columns, filters });
+      toast.success('View saved');
+      setName('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save view');
+    }
+  };
+
+  const handleReplace = async (view: EntryView) => {
+    try {
+      await saveMutation.mutateAsync({ id: view.id, name: view.name, columns, filters });
+      toast.success(`View "${view.name}" updated`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save view');
+    }
+  };
+
+  const handleDelete = async (view: EntryView) => {
+    try {
+      await deleteMutation.mutateAsync(view.id);
+      toast.success('View deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete view');
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={disabled}>
+            <Bookmark className="h-4 w-4 mr-2" />
+            Views
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {isLoading ? (
+            <DropdownMenuItem disabled>Loading views...</DropdownMenuItem>
+          ) : views.length === 0 ? (
+            <DropdownMenuItem disabled>No saved views yet</DropdownMenuItem>
+          ) : (
+            views.map((view) => (
+              <DropdownMenuItem key={view.id.toString()} onSelect={() => handleApply(view)}>
+                <Check
+                  className={
+                    isCurrentView(view, columns, filters) ? 'h-4 w-4 mr-2' : 'h-4 w-4 mr-2 invisible'
+                  }
+                />
+                <span className="truncate">{view.name}</span>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setIsManageOpen(true)}>
+            <Settings2 className="h-4 w-4 mr-2" />
+            Manage views...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={isManageOpen}
+        onOpenChange={(open) => {
+          if (!open) setName('');
+          setIsManageOpen(open);
+        }}
+      >
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Saved views</DialogTitle>
+            <DialogDescription>
+              Save the current columns, filters and sort under a name, or replace a view with them.
+              Views are kept with your account, so they are available on any device.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {isLoading ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">Loading views...</p>
+            ) : error ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">
+                {error.message || 'Unable to load views'}
+              </p>
+            ) : views.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">No saved views yet.</p>
+            ) : (
+              <ul className="divide-y rounded-md border text-sm">
+                {views.map((view) => (
+                  <li key={view.id.toString()} className="flex items-center gap-3 px-3 py-2">
+                    <span className="flex-1 truncate">{view.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleReplace(view)}
+                      disabled={isSaving || isCurrentView(view, columns, filters)}
+                      aria-label={`Replace ${view.name} with the current view`}
+                      title="Replace with the current columns, filters and sort"
+                    >
+                      <Save className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(view)}
+                      disabled={isSaving}
+                      aria-label={`Delete ${view.name}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <form onSubmit={handleSubmit} className="flex items-center gap-2">
+              <Input
+                placeholder="View name, e.g. Overdue > 30 days"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isSaving}
+                aria-label="View name"
+              />
+              <Button type="submit" size="sm" disabled={isSaving}>
+                {saveMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                Save
+              </Button>
+            </form>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
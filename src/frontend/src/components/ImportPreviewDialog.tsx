@@ -0,0 +1,357 @@
+import { useMemo, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, Check, Loader2, Pencil } from 'lucide-react';
+import {
+  guessColumnMapping,
+  mapImportRow,
+  validateRow,
+  IMPORT_FIELD_LABELS,
+  type ColumnMapping,
+  type ImportField,
+  type ImportTable,
+  type ParsedRow,
+} from '../utils/entriesXlsxImport';
+
+const IGNORE_COLUMN = 'ignore';
+const IMPORT_FIELDS = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+// Notes are optional, so a file without a notes column is fine
+const REQUIRED_IMPORT_FIELDS = IMPORT_FIELDS.filter((field) => field !== 'notes');
+
+// A row sent for import, with its 1-based row number in the file
+export interface ImportRow {
+  rowNumber: number;
+  data: ParsedRow;
+}
+
+interface ImportPreviewDialogProps {
+  fileName: string;
+  table: ImportTable;
+  // Why the backend rejected rows of the last import, by row number in the file
+  rejections?: Record<number, string>;
+  isImporting?: boolean;
+  progress?: { processed: number; total: number } | null;
+  onConfirm: (rows: ImportRow[]) => void;
+  onCancel: () => void;
+  onStop?: () => void;
+}
+
+interface PreviewRow {
+  rowNumber: number;
+  data: ParsedRow;
+  error: string | null;
+  rejection: string | undefined;
+  excluded: boolean;
+}
+
+const NO_REJECTIONS: Record<number, string> = {};
+
+/**
+ * Shows parsed import rows before anything is saved. Users can map file
+ * columns to entry fields, fix invalid rows in place, or exclude them.
+ * After an import, rows the backend rejected are shown with its reasons so
+ * they can be fixed and sent again.
+ */
+export function ImportPreviewDialog({
+  fileName,
+  table,
+  rejections = NO_REJECTIONS,
+  isImporting,
+  progress,
+  onConfirm,
+  onCancel,
+  onStop,
+}: ImportPreviewDialogProps) {
+  const [isStopping, setIsStopping] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(table.headers));
+  const [edits, setEdits] = useState<Record<number, Partial<ParsedRow>>>({});
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [editingRowNumber, setEditingRowNumber] = useState<number | null>(null);
+
+  const previewRows = useMemo<PreviewRow[]>(
+    () =>
+      table.rows.map(({ rowNumber, values }) => {
+        const data = { ...mapImportRow(values, mapping), ...edits[rowNumber] };
+        return {
+          rowNumber,
+          data,
+          error: validateRow(data, rowNumber),
+          rejection: rejections[rowNumber],
+          excluded: excludedRows.has(rowNumber),
+        };
+      }),
+    [table, mapping, edits, excludedRows, rejections]
+  );
+
+  const includedRows = previewRows.filter((row) => !row.excluded);
+  const invalidIncludedCount = includedRows.filter((row) => row.error !== null).length;
+  const readyCount = includedRows.length - invalidIncludedCount;
+  const unmappedFields = REQUIRED_IMPORT_FIELDS.filter((field) => !mapping.includes(field));
+  const rejectedRows = previewRows.filter((row) => row.rejection !== undefined);
+
+  const handleMappingChange = (columnIndex: number, value: string) => {
+    const field = value === IGNORE_COLUMN ? null : (value as ImportField);
+    setMapping((prev) =>
+      prev.map((current, i) => {
+        if (i === columnIndex) return field;
+        // A field can only come from one column
+        return field && current === field ? null : current;
+      })
+    );
+  };
+
+  const handleEditField = (rowNumber: number, field: ImportField, value: string) => {
+    setEdits((prev) => ({
+      ...prev,
+      [rowNumber]: { ...prev[rowNumber], [field]: value },
+    }));
+  };
+
+  const handleToggleExcluded = (rowNumber: number, excluded: boolean) => {
+    setExcludedRows((prev) => {
+      const next = new Set(prev);
+      if (excluded) {
+        next.add(rowNumber);
+      } else {
+        next.delete(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const handleExcludeInvalid = () => {
+    setExcludedRows((prev) => {
+      const next = new Set(prev);
+      previewRows.forEach((row) => {
+        if (row.error) next.add(row.rowNumber);
+      });
+      return next;
+    });
+    setEditingRowNumber(null);
+  };
+
+  const handleConfirm = () => {
+    setIsStopping(false);
+    onConfirm(includedRows.map(({ rowNumber, data }) => ({ rowNumber, data })));
+  };
+
+  const handleStop = () => {
+    setIsStopping(true);
+    onStop?.();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isImporting && onCancel()}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Import Preview</DialogTitle>
+          <DialogDescription>
+            Review the rows from {fileName} before saving. Map columns, fix highlighted rows or exclude them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Column mapping */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Column mapping</p>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {table.headers.map((header, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="w-32 truncate text-sm text-muted-foreground" title={header}>
+                  {header || `Column ${i + 1}`}
+                </span>
+                <Select
+                  value={mapping[i] ?? IGNORE_COLUMN}
+                  onValueChange={(value) => handleMappingChange(i, value)}
+                  disabled={isImporting}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={IGNORE_COLUMN}>Ignore column</SelectItem>
+                    {IMPORT_FIELDS.map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {IMPORT_FIELD_LABELS[field]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          {unmappedFields.length > 0 && (
+            <p className="form-error">
+              Not mapped: {unmappedFields.map((field) => IMPORT_FIELD_LABELS[field]).join(', ')}
+            </p>
+          )}
+        </div>
+
+        {/* Summary */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="secondary">{previewRows.length} rows</Badge>
+          <Badge variant="default">{readyCount} ready</Badge>
+          {invalidIncludedCount > 0 && (
+            <Badge variant="destructive">{invalidIncludedCount} with errors</Badge>
+          )}
+          {excludedRows.size > 0 && <Badge variant="outline">{excludedRows.size} excluded</Badge>}
+          {invalidIncludedCount > 0 && (
+            <Button variant="link" size="sm" onClick={handleExcludeInvalid} disabled={isImporting}>
+              Exclude all rows with errors
+            </Button>
+          )}
+        </div>
+
+        {/* Rows */}
+        <div className="max-h-[50vh] overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Include</TableHead>
+                <TableHead className="w-14">Row</TableHead>
+                {IMPORT_FIELDS.map((field) => (
+                  <TableHead key={field}>{IMPORT_FIELD_LABELS[field]}</TableHead>
+                ))}
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {previewRows.map((row) => {
+                const isEditing = editingRowNumber === row.rowNumber;
+                const rowClassName = row.excluded
+                  ? 'opacity-50'
+                  : row.error || row.rejection
+                  ? 'bg-destructive/10 hover:bg-destructive/15'
+                  : '';
+
+                return (
+                  <TableRow key={row.rowNumber} className={rowClassName}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!row.excluded}
+                        onCheckedChange={(checked) => handleToggleExcluded(row.rowNumber, checked !== true)}
+                        disabled={isImporting}
+                        aria-label={`Include row ${row.rowNumber}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                    {IMPORT_FIELDS.map((field) => (
+                      <TableCell key={field}>
+                        {isEditing ? (
+                          <Input
+                            value={row.data[field]}
+                            onChange={(e) => handleEditField(row.rowNumber, field, e.target.value)}
+                            className="h-8 min-w-28"
+                            aria-label={`${IMPORT_FIELD_LABELS[field]} for row ${row.rowNumber}`}
+                          />
+                        ) : (
+                          row.data[field] || <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingRowNumber(isEditing ? null : row.rowNumber)}
+                        disabled={isImporting || row.excluded}
+                        aria-label={isEditing ? 'Done editing' : `Edit row ${row.rowNumber}`}
+                      >
+                        {isEditing ? <Check className="h-4 w-4" /> : <Pencil className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Per-row errors */}
+        {invalidIncludedCount > 0 && (
+          <div className="max-h-32 space-y-1 overflow-auto">
+            {includedRows
+              .filter((row) => row.error)
+              .map((row) => (
+                <p key={row.rowNumber} className="form-error flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3 shrink-0" />
+                  {row.error}
+                </p>
+              ))}
+          </div>
+        )}
+
+        {/* Rows the backend rejected in the last import */}
+        {rejectedRows.length > 0 && !isImporting && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">
+              {rejectedRows.length} {rejectedRows.length === 1 ? 'row was' : 'rows were'} not saved. Fix or
+              exclude {rejectedRows.length === 1 ? 'it' : 'them'} and import again.
+            </p>
+            <div className="max-h-32 space-y-1 overflow-auto">
+              {rejectedRows.map((row) => (
+                <p key={row.rowNumber} className="form-error flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3 shrink-0" />
+                  Row {row.rowNumber}: {row.rejection}
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Import progress */}
+        {isImporting && progress && (
+          <div className="space-y-2">
+            <Progress value={progress.total > 0 ? (progress.processed / progress.total) * 100 : 0} />
+            <p className="text-sm text-muted-foreground">
+              {isStopping
+                ? 'Stopping after the current batch...'
+                : `Saved ${progress.processed} of ${progress.total} rows...`}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {isImporting && progress && onStop ? (
+            <Button variant="outline" onClick={handleStop} disabled={isStopping}>
+              Cancel import
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={onCancel} disabled={isImporting}>
+              Cancel
+            </Button>
+          )}
+          <Button onClick={handleConfirm} disabled={isImporting || readyCount === 0 || invalidIncludedCount > 0}>
+            {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import {readyCount} {readyCount === 1 ? 'entry' : 'entries'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,26 @@
+import { Badge } from '@/components/ui/badge';
+import { PaymentStatus } from '../backend';
+import { PAYMENT_STATUS_LABELS } from '../utils/paymentStatus';
+
+const STATUS_VARIANTS: Record<PaymentStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  [PaymentStatus.pending]: 'outline',
+  [PaymentStatus.partiallyPaid]: 'secondary',
+  [PaymentStatus.paid]: 'default',
+  [PaymentStatus.writtenOff]: 'destructive',
+};
+
+interface PaymentStatusBadgeProps {
+  status: PaymentStatus;
+  settledDate?: string;
+}
+
+export function PaymentStatusBadge({ status, settledDate }: PaymentStatusBadgeProps) {
+  return (
+    <Badge
+      variant={STATUS_VARIANTS[status]}
+      title={settledDate ? `Settled on ${settledDate}` : undefined}
+    >
+      {PAYMENT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
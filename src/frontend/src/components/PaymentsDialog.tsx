@@ -0,0 +1,269 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { PaymentMode, type Entry, type Payment } from '../backend';
+import { PaymentStatusBadge } from './PaymentStatusBadge';
+import {
+  useAddPayment,
+  useRemovePayment,
+  useUpdatePayment,
+  type PaymentFormInput,
+} from '../features/payments/queries';
+import { formatManualDate } from '../utils/date';
+import { formatPaise, formatPaiseAsDecimal } from '../utils/amount';
+import { PAYMENT_MODES, PAYMENT_MODE_LABELS, getOutstandingPaise, getPaidPaise } from '../utils/payments';
+import { validateRequired, validateAmount } from '../utils/validation';
+
+interface PaymentsDialogProps {
+  // Entry whose payments are shown; null closes the dialog
+  entry: Entry | null;
+  onClose: () => void;
+}
+
+function emptyPaymentForm(): PaymentFormInput {
+  return { date: formatManualDate(new Date()), amountRs: '', mode: PaymentMode.cash };
+}
+
+/**
+ * Lists the instalments paid against an entry with the outstanding balance,
+ * and records, edits or removes payments. The entry's status follows from
+ * the payments unless it has been written off.
+ */
+export function PaymentsDialog({ entry, onClose }: PaymentsDialogProps) {
+  const [form, setForm] = useState<PaymentFormInput>(emptyPaymentForm);
+  // Payment being edited; null while the form adds a new one
+  const [editingPaymentId, setEditingPaymentId] = useState<bigint | null>(null);
+
+  const addMutation = useAddPayment();
+  const updateMutation = useUpdatePayment();
+  const removeMutation = useRemovePayment();
+  const isSaving = addMutation.isPending || updateMutation.isPending || removeMutation.isPending;
+
+  const entryId = entry?.id;
+  useEffect(() => {
+    setForm(emptyPaymentForm());
+    setEditingPaymentId(null);
+  }, [entryId]);
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const resetForm = () => {
+    setForm(emptyPaymentForm());
+    setEditingPaymentId(null);
+  };
+
+  const handleEditClick = (payment: Payment) => {
+    setEditingPaymentId(payment.id);
+    setForm({
+      date: payment.date,
+      amountRs: formatPaiseAsDecimal(payment.amountPaise),
+      mode: payment.mode,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entry) return;
+
+    const dateValidation = validateRequired(form.date, 'Payment Date');
+    if (!dateValidation.isValid) {
+      toast.error(dateValidation.error);
+      return;
+    }
+
+    const amountValidation = validateAmount(form.amountRs);
+    if (!amountValidation.isValid) {
+      toast.error(amountValidation.error);
+      return;
+    }
+
+    try {
+      if (editingPaymentId === null) {
+        await addMutation.mutateAsync({ entryId: entry.id, payment: form });
+        toast.success('Payment recorded');
+      } else {
+        await updateMutation.mutateAsync({ entryId: entry.id, paymentId: editingPaymentId, payment: form });
+        toast.success('Payment updated');
+      }
+      resetForm();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save payment');
+    }
+  };
+
+  const handleRemove = async (payment: Payment) => {
+    if (!entry) return;
+
+    try {
+      await removeMutation.mutateAsync({ entryId: entry.id, paymentId: payment.id });
+      if (editingPaymentId === payment.id) {
+        resetForm();
+      }
+      toast.success('Payment removed');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove payment');
+    }
+  };
+
+  return (
+    <Dialog open={!!entry} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Payments</DialogTitle>
+          <DialogDescription>
+            {entry ? `Instalments paid against ${entry.customerName}'s entry of ${formatDate(entry.manualDate)}.` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {entry && (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-4 gap-3 rounded-md border p-3 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Amount</dt>
+                <dd className="font-semibold">{formatPaise(entry.amountPaise)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Paid</dt>
+                <dd className="font-semibold">{formatPaise(getPaidPaise(entry))}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Outstanding</dt>
+                <dd className="font-semibold">{formatPaise(getOutstandingPaise(entry))}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Status</dt>
+                <dd>
+                  <PaymentStatusBadge status={entry.status} settledDate={entry.settledDate} />
+                </dd>
+              </div>
+            </dl>
+
+            {entry.payments.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">No payments recorded yet.</p>
+            ) : (
+              <ul className="divide-y rounded-md border text-sm">
+                {entry.payments.map((payment) => (
+                  <li
+                    key={payment.id.toString()}
+                    className={
+                      editingPaymentId === payment.id
+                        ? 'flex items-center gap-3 bg-muted/50 px-3 py-2'
+                        : 'flex items-center gap-3 px-3 py-2'
+                    }
+                  >
+                    <span className="w-28">{formatDate(payment.date)}</span>
+                    <span className="flex-1 text-muted-foreground">{PAYMENT_MODE_LABELS[payment.mode]}</span>
+                    <span className="font-medium">{formatPaise(payment.amountPaise)}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleEditClick(payment)}
+                      disabled={isSaving}
+                      aria-label="Edit payment"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(payment)}
+                      disabled={isSaving}
+                      aria-label="Remove payment"
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3 rounded-md border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="payment-date" className="text-xs">Date</Label>
+                <Input
+                  id="payment-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="payment-amountRs" className="text-xs">Amount (Rs.)</Label>
+                <Input
+                  id="payment-amountRs"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Enter amount"
+                  value={form.amountRs}
+                  onChange={(e) => setForm({ ...form, amountRs: e.target.value })}
+                  disabled={isSaving}
+                  className="w-32"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="payment-mode" className="text-xs">Mode</Label>
+                <Select
+                  value={form.mode}
+                  onValueChange={(value) => setForm({ ...form, mode: value as PaymentMode })}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger id="payment-mode" className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {PAYMENT_MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" size="sm" disabled={isSaving}>
+                  {addMutation.isPending || updateMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    editingPaymentId === null && <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  {editingPaymentId === null ? 'Add payment' : 'Save payment'}
+                </Button>
+                {editingPaymentId !== null && (
+                  <Button type="button" variant="outline" size="sm" onClick={resetForm} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
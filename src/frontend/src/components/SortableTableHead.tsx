@@ -0,0 +1,49 @@
+import { TableHead } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import type { EntrySort, EntrySortField } from '../backend';
+
+interface SortableTableHeadProps {
+  label: string;
+  field: EntrySortField;
+  sort: EntrySort;
+  onSortChange: (sort: EntrySort) => void;
+  // Direction of the first click: names read best A-Z, numbers and dates largest first
+  firstDescending?: boolean;
+  className?: string;
+}
+
+/**
+ * Column header that sorts by its field when clicked; clicking the sorted
+ * column again reverses the direction.
+ */
+export function SortableTableHead({
+  label,
+  field,
+  sort,
+  onSortChange,
+  firstDescending = true,
+  className,
+}: SortableTableHeadProps) {
+  const isSorted = sort.field === field;
+  const Icon = !isSorted ? ArrowUpDown : sort.descending ? ArrowDown : ArrowUp;
+
+  const handleClick = () => {
+    onSortChange({ field, descending: isSorted ? !sort.descending : firstDescending });
+  };
+
+  return (
+    <TableHead
+      className={className}
+      aria-sort={isSorted ? (sort.descending ? 'descending' : 'ascending') : undefined}
+    >
+      <button
+        type="button"
+        onClick={handleClick}
+        className="inline-flex items-center gap-1 hover:text-foreground"
+      >
+        {label}
+        <Icon className={isSorted ? 'h-3.5 w-3.5' : 'h-3.5 w-3.5 opacity-40'} />
+      </button>
+    </TableHead>
+  );
+}
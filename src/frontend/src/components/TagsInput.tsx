@@ -0,0 +1,85 @@
+import { useId, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { X } from 'lucide-react';
+import { useListTags } from '../features/categories/queries';
+
+interface TagsInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  id?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Free-form tags shown as badges. A tag is added on Enter, comma or when the
+ * input loses focus, and Backspace in the empty input removes the last one.
+ * Tags already used on the caller's entries are suggested while typing.
+ */
+export function TagsInput({ value, onChange, id, disabled }: TagsInputProps) {
+  const [draft, setDraft] = useState('');
+  const suggestionsId = useId();
+  const { data: knownTags = [] } = useListTags();
+
+  const addDraft = () => {
+    const tag = draft.trim();
+    setDraft('');
+    if (tag === '' || value.some((existing) => existing.toLowerCase() === tag.toLowerCase())) {
+      return;
+    }
+    onChange([...value, tag]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((existing) => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addDraft();
+    } else if (e.key === 'Backspace' && draft === '' && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                disabled={disabled}
+                aria-label={`Remove tag ${tag}`}
+                className="rounded-sm hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id={id}
+        list={suggestionsId}
+        placeholder="Type a tag and press Enter"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={addDraft}
+        disabled={disabled}
+      />
+      <datalist id={suggestionsId}>
+        {knownTags
+          .filter((tag) => !value.some((existing) => existing.toLowerCase() === tag.toLowerCase()))
+          .map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+      </datalist>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Entry } from '../backend';
+import {
+  useListTrash,
+  usePurgeEntry,
+  useRestoreEntry,
+  useSetTrashRetentionDays,
+  useTrashRetentionDays,
+} from '../features/entries/queries';
+import { formatPaise } from '../utils/amount';
+import { getSignedAmountPaise } from '../utils/entryKind';
+
+interface TrashDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isAdmin?: boolean;
+  allUsers?: boolean;
+}
+
+/**
+ * Lists deleted entries with restore actions. Admins can also purge entries
+ * permanently and change how long entries are kept before automatic purge.
+ */
+export function TrashDialog({ open, onOpenChange, isAdmin, allUsers }: TrashDialogProps) {
+  const [purgingEntry, setPurgingEntry] = useState<Entry | null>(null);
+  const [retentionInput, setRetentionInput] = useState('');
+
+  const { data: trashedEntries = [], isLoading, error } = useListTrash({ allUsers, enabled: open });
+  const { data: retentionDays } = useTrashRetentionDays();
+  const restoreMutation = useRestoreEntry();
+  const purgeMutation = usePurgeEntry();
+  const setRetentionMutation = useSetTrashRetentionDays();
+
+  useEffect(() => {
+    if (retentionDays) {
+      setRetentionInput(retentionDays.toString());
+    }
+  }, [retentionDays]);
+
+  const formatTimestamp = (timestamp: bigint | undefined) => {
+    if (timestamp === undefined) return 'N/A';
+    // Convert nanoseconds to milliseconds
+    const date = new Date(Number(timestamp / BigInt(1_000_000)));
+    return date.toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const handleRestore = async (entry: Entry) => {
+    try {
+      await restoreMutation.mutateAsync(entry.id);
+      toast.success('Entry restored');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore entry');
+    }
+  };
+
+  const handlePurgeConfirm = async () => {
+    if (!purgingEntry) return;
+
+    try {
+      await purgeMutation.mutateAsync(purgingEntry.id);
+      toast.success('Entry permanently deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to permanently delete entry');
+    } finally {
+      setPurgingEntry(null);
+    }
+  };
+
+  const handleRetentionSave = async () => {
+    const days = parseInt(retentionInput, 10);
+    if (isNaN(days) || days < 1) {
+      toast.error('Retention period must be at least 1 day');
+      return;
+    }
+
+    try {
+      await setRetentionMutation.mutateAsync(days);
+      toast.success(`Trash retention set to ${days} ${days === 1 ? 'day' : 'days'}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update retention period');
+    }
+  };
+
+  const isMutating = restoreMutation.isPending || purgeMutation.isPending;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Trash</DialogTitle>
+            <DialogDescription>
+              Deleted entries can be restored until they are purged
+              {retentionDays ? ` automatically after ${retentionDays} ${retentionDays === 1 ? 'day' : 'days'}` : ''}.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isAdmin && (
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="trash-retention" className="text-xs">Retention period (days)</Label>
+                <Input
+                  id="trash-retention"
+                  type="number"
+                  min="1"
+                  value={retentionInput}
+                  onChange={(e) => setRetentionInput(e.target.value)}
+                  className="w-32"
+                  disabled={setRetentionMutation.isPending}
+                />
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRetentionSave}
+                disabled={setRetentionMutation.isPending || retentionInput === retentionDays?.toString()}
+              >
+                {setRetentionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              Loading trash...
+            </div>
+          ) : error ? (
+            <p className="py-8 text-center text-muted-foreground">
+              {error.message || 'Unable to load the trash'}
+            </p>
+          ) : trashedEntries.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">The trash is empty.</p>
+          ) : (
+            <div className="max-h-[60vh] overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Manual Date</TableHead>
+                    <TableHead>Customer Name</TableHead>
+                    <TableHead>Mobile Number</TableHead>
+                    <TableHead className="text-right">Amount (Rs.)</TableHead>
+                    <TableHead>Deleted At</TableHead>
+                    <TableHead className="text-center">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trashedEntries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-medium">{entry.manualDate}</TableCell>
+                      <TableCell>{entry.customerName}</TableCell>
+                      <TableCell>{entry.mobileNumber}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatPaise(getSignedAmountPaise(entry))}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground" title={entry.deletedBy?.toText()}>
+                        {formatTimestamp(entry.deletedAt)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRestore(entry)}
+                            disabled={isMutating}
+                            aria-label="Restore entry"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                          {isAdmin && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPurgingEntry(entry)}
+                              disabled={isMutating}
+                              aria-label="Delete permanently"
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Purge Confirmation Dialog */}
+      <AlertDialog open={!!purgingEntry} onOpenChange={(open) => !open && setPurgingEntry(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Permanently</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to permanently delete this entry? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={purgeMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurgeConfirm}
+              disabled={purgeMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {purgeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
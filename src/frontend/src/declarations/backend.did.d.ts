@@ -10,51 +10,320 @@ import type { ActorMethod } from '@icp-sdk/core/agent';
 import type { IDL } from '@icp-sdk/core/candid';
 import type { Principal } from '@icp-sdk/core/principal';
 
+export interface Attachment {
+  'id' : bigint,
+  'contentType' : string,
+  'blob' : ExternalBlob,
+  'fileName' : string,
+  'sizeBytes' : bigint,
+  'uploadedAt' : Time,
+  'uploadedBy' : [] | [Principal],
+}
+export type AttachmentError = { 'notFound' : { 'message' : string } } |
+  { 'invalidFile' : { 'message' : string } } |
+  { 'unauthorized' : { 'message' : string } };
+export interface AttachmentInput {
+  'contentType' : string,
+  'blob' : ExternalBlob,
+  'fileName' : string,
+  'sizeBytes' : bigint,
+}
+export interface BulkEntryUpdate {
+  'status' : [] | [PaymentStatus],
+  'settledDate' : [] | [string],
+  'manualDate' : [] | [string],
+}
+export interface Category { 'id' : bigint, 'name' : string }
 export type CreateEntryError = {
     'emptyField' : { 'field' : string, 'message' : string }
   } |
-  { 'invalidAmount' : { 'message' : string } };
+  { 'invalidAmount' : { 'message' : string } } |
+  { 'invalidCategory' : { 'message' : string } } |
+  { 'duplicateId' : { 'message' : string } };
+export interface Customer {
+  'name' : string,
+  'alternateNames' : Array<string>,
+  'createdAt' : Time,
+  'mobileNumber' : string,
+  'updatedAt' : Time,
+  'notes' : string,
+}
+export interface CustomerInput {
+  'name' : string,
+  'alternateNames' : Array<string>,
+  'mobileNumber' : string,
+  'notes' : string,
+}
+export interface CustomerSummary {
+  'lastTransactionDate' : [] | [string],
+  'owner' : Principal,
+  'customer' : Customer,
+  'entryCount' : bigint,
+  'balancePaise' : bigint,
+}
+export type DeleteCategoryError = { 'notFound' : { 'message' : string } } |
+  { 'inUse' : { 'message' : string } };
 export type DeleteEntryError = { 'notFound' : { 'message' : string } } |
   { 'unauthorized' : { 'message' : string } };
+export interface EntriesPage {
+  'entries' : Array<Entry>,
+  'nextCursor' : [] | [EntryCursor],
+}
 export interface Entry {
+  'status' : PaymentStatus,
+  'notes' : string,
+  'categoryId' : [] | [bigint],
+  'tags' : Array<string>,
+  'kind' : EntryKind,
+  'settledDate' : [] | [string],
+  'payments' : Array<Payment>,
   'id' : string,
+  'receiptNumber' : string,
   'customerName' : string,
   'owner' : [] | [Principal],
+  'deletedAt' : [] | [Time],
+  'deletedBy' : [] | [Principal],
+  'updatedAt' : Time,
+  'version' : bigint,
   'createdAt' : Time,
   'mobileNumber' : string,
-  'amountRs' : bigint,
+  'amountPaise' : bigint,
   'manualDate' : string,
 }
+export interface EntryAnalyticsBucket {
+  'month' : bigint,
+  'year' : bigint,
+  'count' : bigint,
+  'categoryId' : [] | [bigint],
+  'creditPaise' : bigint,
+  'debitPaise' : bigint,
+}
+export type DeleteEntryViewError = { 'notFound' : { 'message' : string } };
+export interface EntryCursor { 'id' : string, 'createdAt' : Time }
+export type EntryColumn = { 'customerName' : null } |
+  { 'createdAt' : null } |
+  { 'mobileNumber' : null } |
+  { 'manualDate' : null } |
+  { 'amount' : null } |
+  { 'days' : null };
+export interface EntryColumnSetting {
+  'column' : EntryColumn,
+  'visible' : boolean,
+}
+export type EntryChange = { 'created' : null } |
+  { 'deleted' : null } |
+  { 'restored' : null } |
+  { 'updated' : null };
+export interface EntryFilter {
+  'status' : [] | [PaymentStatus],
+  'notes' : [] | [string],
+  'categoryId' : [] | [bigint],
+  'tag' : [] | [string],
+  'minDays' : [] | [bigint],
+  'maxDays' : [] | [bigint],
+  'searchText' : [] | [string],
+  'mobilePrefix' : [] | [string],
+  'customerName' : [] | [string],
+  'toDate' : [] | [string],
+  'maxAmount' : [] | [bigint],
+  'minAmount' : [] | [bigint],
+  'fromDate' : [] | [string],
+}
+export type EntryKind = { 'credit' : null } |
+  { 'debit' : null };
 export interface EntryInput {
-  'id' : string,
+  'status' : [] | [PaymentStatus],
+  'notes' : string,
+  'categoryId' : [] | [bigint],
+  'tags' : Array<string>,
+  'kind' : [] | [EntryKind],
+  'settledDate' : [] | [string],
+  'id' : [] | [string],
+  'customerName' : string,
+  'mobileNumber' : string,
+  'amountPaise' : bigint,
+  'manualDate' : string,
+}
+export interface EntryRevision {
+  'status' : PaymentStatus,
+  'notes' : string,
+  'categoryId' : [] | [bigint],
+  'tags' : Array<string>,
+  'kind' : EntryKind,
+  'settledDate' : [] | [string],
   'customerName' : string,
+  'changedAt' : Time,
+  'changedBy' : [] | [Principal],
+  'change' : EntryChange,
   'mobileNumber' : string,
-  'amountRs' : bigint,
+  'paidPaise' : bigint,
+  'amountPaise' : bigint,
   'manualDate' : string,
 }
+export interface EntrySort { 'field' : EntrySortField, 'descending' : boolean }
+export type EntrySortField = { 'customerName' : null } |
+  { 'createdAt' : null } |
+  { 'manualDate' : null } |
+  { 'amount' : null } |
+  { 'days' : null };
+export interface EntryView {
+  'id' : bigint,
+  'columns' : Array<EntryColumnSetting>,
+  'name' : string,
+  'sort' : EntrySort,
+  'filter' : EntryFilter,
+}
+export interface EntryViewInput {
+  'columns' : Array<EntryColumnSetting>,
+  'name' : string,
+  'sort' : EntrySort,
+  'filter' : EntryFilter,
+}
+export type ExternalBlob = Uint8Array | number[];
+export interface Payment {
+  'id' : bigint,
+  'date' : string,
+  'mode' : PaymentMode,
+  'recordedAt' : Time,
+  'recordedBy' : [] | [Principal],
+  'amountPaise' : bigint,
+}
+export type PaymentError = {
+    'emptyField' : { 'field' : string, 'message' : string }
+  } |
+  { 'notFound' : { 'message' : string } } |
+  { 'unauthorized' : { 'message' : string } } |
+  { 'invalidAmount' : { 'message' : string } } |
+  { 'invalidCategory' : { 'message' : string } } |
+  { 'duplicateId' : { 'message' : string } };
+export interface PaymentInput {
+  'date' : string,
+  'mode' : PaymentMode,
+  'amountPaise' : bigint,
+}
+export type PaymentMode = { 'upi' : null } |
+  { 'other' : null } |
+  { 'cash' : null } |
+  { 'cheque' : null } |
+  { 'bankTransfer' : null };
+export type PaymentStatus = { 'paid' : null } |
+  { 'pending' : null } |
+  { 'writtenOff' : null } |
+  { 'partiallyPaid' : null };
+export type SaveCategoryError = {
+    'emptyField' : { 'field' : string, 'message' : string }
+  } |
+  { 'notFound' : { 'message' : string } } |
+  { 'duplicateName' : { 'message' : string } };
+export type SaveEntryViewError = {
+    'emptyField' : { 'field' : string, 'message' : string }
+  } |
+  { 'notFound' : { 'message' : string } } |
+  { 'tooMany' : { 'message' : string } } |
+  { 'duplicateName' : { 'message' : string } };
+export type SaveCustomerError = {
+    'emptyField' : { 'field' : string, 'message' : string }
+  };
+export interface SearchEntriesResult {
+  'entries' : Array<Entry>,
+  'nextOffset' : [] | [bigint],
+  'totalCount' : bigint,
+}
 export type Time = bigint;
 export type UpdateEntryError = {
-    'emptyField' : { 'field' : string, 'message' : string }
+    'conflict' : { 'current' : Entry, 'message' : string }
   } |
+  { 'emptyField' : { 'field' : string, 'message' : string } } |
   { 'notFound' : { 'message' : string } } |
   { 'unauthorized' : { 'message' : string } } |
-  { 'invalidAmount' : { 'message' : string } };
+  { 'invalidAmount' : { 'message' : string } } |
+  { 'invalidCategory' : { 'message' : string } } |
+  { 'duplicateId' : { 'message' : string } };
 export interface UserProfile { 'name' : string }
 export type UserRole = { 'admin' : null } |
   { 'user' : null } |
   { 'guest' : null };
+export interface _CaffeineStorageCreateCertificateResult {
+  'method' : string,
+  'blob_hash' : string,
+}
 export interface _SERVICE {
+  '_caffeineStorageCreateCertificate' : ActorMethod<
+    [string],
+    _CaffeineStorageCreateCertificateResult
+  >,
   '_initializeAccessControlWithSecret' : ActorMethod<[string], undefined>,
+  'addAttachment' : ActorMethod<
+    [string, AttachmentInput],
+    [] | [AttachmentError]
+  >,
+  'addPayment' : ActorMethod<[string, PaymentInput], [] | [PaymentError]>,
   'assignCallerUserRole' : ActorMethod<[Principal, UserRole], undefined>,
+  'createEntries' : ActorMethod<
+    [Array<EntryInput>],
+    Array<[] | [CreateEntryError]>
+  >,
   'createEntry' : ActorMethod<[EntryInput], [] | [CreateEntryError]>,
+  'deleteCategory' : ActorMethod<[bigint], [] | [DeleteCategoryError]>,
+  'deleteEntries' : ActorMethod<
+    [Array<string>],
+    Array<[] | [DeleteEntryError]>
+  >,
   'deleteEntry' : ActorMethod<[string], [] | [DeleteEntryError]>,
+  'deleteEntryView' : ActorMethod<[bigint], [] | [DeleteEntryViewError]>,
   'getCallerUserProfile' : ActorMethod<[], [] | [UserProfile]>,
   'getCallerUserRole' : ActorMethod<[], UserRole>,
+  'getCustomer' : ActorMethod<[string], [] | [Customer]>,
+  'getEntryAnalytics' : ActorMethod<[boolean], Array<EntryAnalyticsBucket>>,
+  'getEntryColumnLayout' : ActorMethod<[], Array<EntryColumnSetting>>,
+  'getEntryHistory' : ActorMethod<[string], Array<EntryRevision>>,
+  'getTrashRetentionDays' : ActorMethod<[], bigint>,
   'getUserProfile' : ActorMethod<[Principal], [] | [UserProfile]>,
   'isCallerAdmin' : ActorMethod<[], boolean>,
+  'listAttachments' : ActorMethod<[string], Array<Attachment>>,
+  'listCategories' : ActorMethod<[], Array<Category>>,
+  'listCustomerEntries' : ActorMethod<[string, boolean], Array<Entry>>,
+  'listCustomers' : ActorMethod<[boolean], Array<CustomerSummary>>,
   'listEntriesNewestFirst' : ActorMethod<[], Array<Entry>>,
+  'listEntriesPage' : ActorMethod<
+    [[] | [EntryCursor], bigint, boolean],
+    EntriesPage
+  >,
+  'listEntryViews' : ActorMethod<[], Array<EntryView>>,
+  'listTags' : ActorMethod<[], Array<string>>,
+  'listTrash' : ActorMethod<[boolean], Array<Entry>>,
+  'purgeEntry' : ActorMethod<[string], [] | [DeleteEntryError]>,
+  'removeAttachment' : ActorMethod<[string, bigint], [] | [AttachmentError]>,
+  'removePayment' : ActorMethod<[string, bigint], [] | [PaymentError]>,
+  'restoreEntry' : ActorMethod<[string], [] | [DeleteEntryError]>,
   'saveCallerUserProfile' : ActorMethod<[UserProfile], undefined>,
-  'updateEntry' : ActorMethod<[string, EntryInput], [] | [UpdateEntryError]>,
+  'saveCategory' : ActorMethod<
+    [[] | [bigint], string],
+    [] | [SaveCategoryError]
+  >,
+  'saveCustomer' : ActorMethod<[CustomerInput], [] | [SaveCustomerError]>,
+  'saveEntryColumnLayout' : ActorMethod<[Array<EntryColumnSetting>], undefined>,
+  'saveEntryView' : ActorMethod<
+    [[] | [bigint], EntryViewInput],
+    [] | [SaveEntryViewError]
+  >,
+  'searchEntries' : ActorMethod<
+    [EntryFilter, EntrySort, bigint, bigint, boolean],
+    SearchEntriesResult
+  >,
+  'setTrashRetentionDays' : ActorMethod<[bigint], undefined>,
+  'updateEntries' : ActorMethod<
+    [Array<string>, BulkEntryUpdate],
+    Array<[] | [UpdateEntryError]>
+  >,
+  'updateEntry' : ActorMethod<
+    [string, EntryInput, bigint],
+    [] | [UpdateEntryError]
+  >,
+  'updatePayment' : ActorMethod<
+    [string, bigint, PaymentInput],
+    [] | [PaymentError]
+  >,
 }
 export declare const idlService: IDL.ServiceClass;
 export declare const idlInitArgs: IDL.Type[];
@@ -13,16 +13,76 @@ export const UserRole = IDL.Variant({
   'user' : IDL.Null,
   'guest' : IDL.Null,
 });
+export const _CaffeineStorageCreateCertificateResult = IDL.Record({
+  'method' : IDL.Text,
+  'blob_hash' : IDL.Text,
+});
+export const ExternalBlob = IDL.Vec(IDL.Nat8);
+export const AttachmentInput = IDL.Record({
+  'contentType' : IDL.Text,
+  'blob' : ExternalBlob,
+  'fileName' : IDL.Text,
+  'sizeBytes' : IDL.Nat,
+});
+export const AttachmentError = IDL.Variant({
+  'notFound' : IDL.Record({ 'message' : IDL.Text }),
+  'invalidFile' : IDL.Record({ 'message' : IDL.Text }),
+  'unauthorized' : IDL.Record({ 'message' : IDL.Text }),
+});
+export const PaymentMode = IDL.Variant({
+  'upi' : IDL.Null,
+  'other' : IDL.Null,
+  'cash' : IDL.Null,
+  'cheque' : IDL.Null,
+  'bankTransfer' : IDL.Null,
+});
+export const PaymentInput = IDL.Record({
+  'date' : IDL.Text,
+  'mode' : PaymentMode,
+  'amountPaise' : IDL.Nat,
+});
+export const PaymentError = IDL.Variant({
+  'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
+  'notFound' : IDL.Record({ 'message' : IDL.Text }),
+  'unauthorized' : IDL.Record({ 'message' : IDL.Text }),
+  'invalidAmount' : IDL.Record({ 'message' : IDL.Text }),
+  'invalidCategory' : IDL.Record({ 'message' : IDL.Text }),
+  'duplicateId' : IDL.Record({ 'message' : IDL.Text }),
+});
+export const PaymentStatus = IDL.Variant({
+  'paid' : IDL.Null,
+  'pending' : IDL.Null,
+  'writtenOff' : IDL.Null,
+  'partiallyPaid' : IDL.Null,
+});
+export const BulkEntryUpdate = IDL.Record({
+  'status' : IDL.Opt(PaymentStatus),
+  'settledDate' : IDL.Opt(IDL.Text),
+  'manualDate' : IDL.Opt(IDL.Text),
+});
+export const EntryKind = IDL.Variant({ 'credit' : IDL.Null, 'debit' : IDL.Null });
 export const EntryInput = IDL.Record({
-  'id' : IDL.Text,
+  'status' : IDL.Opt(PaymentStatus),
+  'notes' : IDL.Text,
+  'categoryId' : IDL.Opt(IDL.Nat),
+  'tags' : IDL.Vec(IDL.Text),
+  'kind' : IDL.Opt(EntryKind),
+  'settledDate' : IDL.Opt(IDL.Text),
+  'id' : IDL.Opt(IDL.Text),
   'customerName' : IDL.Text,
   'mobileNumber' : IDL.Text,
-  'amountRs' : IDL.Nat,
+  'amountPaise' : IDL.Nat,
   'manualDate' : IDL.Text,
 });
 export const CreateEntryError = IDL.Variant({
   'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
   'invalidAmount' : IDL.Record({ 'message' : IDL.Text }),
+  'invalidCategory' : IDL.Record({ 'message' : IDL.Text }),
+  'duplicateId' : IDL.Record({ 'message' : IDL.Text }),
+});
+export const DeleteCategoryError = IDL.Variant({
+  'notFound' : IDL.Record({ 'message' : IDL.Text }),
+  'inUse' : IDL.Record({ 'message' : IDL.Text }),
 });
 export const DeleteEntryError = IDL.Variant({
   'notFound' : IDL.Record({ 'message' : IDL.Text }),
@@ -30,42 +90,308 @@ export const DeleteEntryError = IDL.Variant({
 });
 export const UserProfile = IDL.Record({ 'name' : IDL.Text });
 export const Time = IDL.Int;
+export const Attachment = IDL.Record({
+  'id' : IDL.Nat,
+  'contentType' : IDL.Text,
+  'blob' : ExternalBlob,
+  'fileName' : IDL.Text,
+  'sizeBytes' : IDL.Nat,
+  'uploadedAt' : Time,
+  'uploadedBy' : IDL.Opt(IDL.Principal),
+});
+export const Customer = IDL.Record({
+  'name' : IDL.Text,
+  'alternateNames' : IDL.Vec(IDL.Text),
+  'createdAt' : Time,
+  'mobileNumber' : IDL.Text,
+  'updatedAt' : Time,
+  'notes' : IDL.Text,
+});
+export const Payment = IDL.Record({
+  'id' : IDL.Nat,
+  'date' : IDL.Text,
+  'mode' : PaymentMode,
+  'recordedAt' : Time,
+  'recordedBy' : IDL.Opt(IDL.Principal),
+  'amountPaise' : IDL.Nat,
+});
 export const Entry = IDL.Record({
+  'status' : PaymentStatus,
+  'notes' : IDL.Text,
+  'categoryId' : IDL.Opt(IDL.Nat),
+  'tags' : IDL.Vec(IDL.Text),
+  'kind' : EntryKind,
+  'settledDate' : IDL.Opt(IDL.Text),
+  'payments' : IDL.Vec(Payment),
   'id' : IDL.Text,
+  'receiptNumber' : IDL.Text,
   'customerName' : IDL.Text,
   'owner' : IDL.Opt(IDL.Principal),
+  'deletedAt' : IDL.Opt(Time),
+  'deletedBy' : IDL.Opt(IDL.Principal),
+  'updatedAt' : Time,
+  'version' : IDL.Nat,
   'createdAt' : Time,
   'mobileNumber' : IDL.Text,
-  'amountRs' : IDL.Nat,
+  'amountPaise' : IDL.Nat,
   'manualDate' : IDL.Text,
 });
+export const Category = IDL.Record({ 'id' : IDL.Nat, 'name' : IDL.Text });
+export const EntryChange = IDL.Variant({
+  'created' : IDL.Null,
+  'deleted' : IDL.Null,
+  'restored' : IDL.Null,
+  'updated' : IDL.Null,
+});
+export const EntryRevision = IDL.Record({
+  'status' : PaymentStatus,
+  'notes' : IDL.Text,
+  'categoryId' : IDL.Opt(IDL.Nat),
+  'tags' : IDL.Vec(IDL.Text),
+  'kind' : EntryKind,
+  'settledDate' : IDL.Opt(IDL.Text),
+  'customerName' : IDL.Text,
+  'changedAt' : Time,
+  'changedBy' : IDL.Opt(IDL.Principal),
+  'change' : EntryChange,
+  'mobileNumber' : IDL.Text,
+  'paidPaise' : IDL.Nat,
+  'amountPaise' : IDL.Nat,
+  'manualDate' : IDL.Text,
+});
+export const EntryCursor = IDL.Record({ 'id' : IDL.Text, 'createdAt' : Time });
+export const EntriesPage = IDL.Record({
+  'entries' : IDL.Vec(Entry),
+  'nextCursor' : IDL.Opt(EntryCursor),
+});
+export const EntryAnalyticsBucket = IDL.Record({
+  'month' : IDL.Nat,
+  'year' : IDL.Nat,
+  'count' : IDL.Nat,
+  'categoryId' : IDL.Opt(IDL.Nat),
+  'creditPaise' : IDL.Nat,
+  'debitPaise' : IDL.Nat,
+});
+export const EntryFilter = IDL.Record({
+  'status' : IDL.Opt(PaymentStatus),
+  'notes' : IDL.Opt(IDL.Text),
+  'categoryId' : IDL.Opt(IDL.Nat),
+  'tag' : IDL.Opt(IDL.Text),
+  'minDays' : IDL.Opt(IDL.Int),
+  'maxDays' : IDL.Opt(IDL.Int),
+  'searchText' : IDL.Opt(IDL.Text),
+  'mobilePrefix' : IDL.Opt(IDL.Text),
+  'customerName' : IDL.Opt(IDL.Text),
+  'toDate' : IDL.Opt(IDL.Text),
+  'maxAmount' : IDL.Opt(IDL.Nat),
+  'minAmount' : IDL.Opt(IDL.Nat),
+  'fromDate' : IDL.Opt(IDL.Text),
+});
+export const EntrySortField = IDL.Variant({
+  'customerName' : IDL.Null,
+  'createdAt' : IDL.Null,
+  'manualDate' : IDL.Null,
+  'amount' : IDL.Null,
+  'days' : IDL.Null,
+});
+export const EntrySort = IDL.Record({
+  'field' : EntrySortField,
+  'descending' : IDL.Bool,
+});
+export const EntryColumn = IDL.Variant({
+  'customerName' : IDL.Null,
+  'createdAt' : IDL.Null,
+  'mobileNumber' : IDL.Null,
+  'manualDate' : IDL.Null,
+  'amount' : IDL.Null,
+  'days' : IDL.Null,
+});
+export const EntryColumnSetting = IDL.Record({
+  'column' : EntryColumn,
+  'visible' : IDL.Bool,
+});
+export const DeleteEntryViewError = IDL.Variant({
+  'notFound' : IDL.Record({ 'message' : IDL.Text }),
+});
+export const EntryView = IDL.Record({
+  'id' : IDL.Nat,
+  'columns' : IDL.Vec(EntryColumnSetting),
+  'name' : IDL.Text,
+  'sort' : EntrySort,
+  'filter' : EntryFilter,
+});
+export const EntryViewInput = IDL.Record({
+  'columns' : IDL.Vec(EntryColumnSetting),
+  'name' : IDL.Text,
+  'sort' : EntrySort,
+  'filter' : EntryFilter,
+});
+export const SaveEntryViewError = IDL.Variant({
+  'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
+  'notFound' : IDL.Record({ 'message' : IDL.Text }),
+  'tooMany' : IDL.Record({ 'message' : IDL.Text }),
+  'duplicateName' : IDL.Record({ 'message' : IDL.Text }),
+});
+export const SaveCategoryError = IDL.Variant({
+  'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
+  'notFound' : IDL.Record({ 'message' : IDL.Text }),
+  'duplicateName' : IDL.Record({ 'message' : IDL.Text }),
+});
+export const SearchEntriesResult = IDL.Record({
+  'entries' : IDL.Vec(Entry),
+  'nextOffset' : IDL.Opt(IDL.Nat),
+  'totalCount' : IDL.Nat,
+});
+export const CustomerSummary = IDL.Record({
+  'lastTransactionDate' : IDL.Opt(IDL.Text),
+  'owner' : IDL.Principal,
+  'customer' : Customer,
+  'entryCount' : IDL.Nat,
+  'balancePaise' : IDL.Int,
+});
+export const CustomerInput = IDL.Record({
+  'name' : IDL.Text,
+  'alternateNames' : IDL.Vec(IDL.Text),
+  'mobileNumber' : IDL.Text,
+  'notes' : IDL.Text,
+});
+export const SaveCustomerError = IDL.Variant({
+  'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
+});
 export const UpdateEntryError = IDL.Variant({
+  'conflict' : IDL.Record({ 'current' : Entry, 'message' : IDL.Text }),
   'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
   'notFound' : IDL.Record({ 'message' : IDL.Text }),
   'unauthorized' : IDL.Record({ 'message' : IDL.Text }),
   'invalidAmount' : IDL.Record({ 'message' : IDL.Text }),
+  'invalidCategory' : IDL.Record({ 'message' : IDL.Text }),
+  'duplicateId' : IDL.Record({ 'message' : IDL.Text }),
 });
 
 export const idlService = IDL.Service({
+  '_caffeineStorageCreateCertificate' : IDL.Func(
+      [IDL.Text],
+      [_CaffeineStorageCreateCertificateResult],
+      [],
+    ),
   '_initializeAccessControlWithSecret' : IDL.Func([IDL.Text], [], []),
+  'addAttachment' : IDL.Func(
+      [IDL.Text, AttachmentInput],
+      [IDL.Opt(AttachmentError)],
+      [],
+    ),
+  'addPayment' : IDL.Func(
+      [IDL.Text, PaymentInput],
+      [IDL.Opt(PaymentError)],
+      [],
+    ),
   'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
+  'createEntries' : IDL.Func(
+      [IDL.Vec(EntryInput)],
+      [IDL.Vec(IDL.Opt(CreateEntryError))],
+      [],
+    ),
   'createEntry' : IDL.Func([EntryInput], [IDL.Opt(CreateEntryError)], []),
+  'deleteCategory' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Opt(DeleteCategoryError)],
+      [],
+    ),
+  'deleteEntries' : IDL.Func(
+      [IDL.Vec(IDL.Text)],
+      [IDL.Vec(IDL.Opt(DeleteEntryError))],
+      [],
+    ),
   'deleteEntry' : IDL.Func([IDL.Text], [IDL.Opt(DeleteEntryError)], []),
+  'deleteEntryView' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Opt(DeleteEntryViewError)],
+      [],
+    ),
   'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
   'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
+  'getCustomer' : IDL.Func([IDL.Text], [IDL.Opt(Customer)], ['query']),
+  'getEntryAnalytics' : IDL.Func(
+      [IDL.Bool],
+      [IDL.Vec(EntryAnalyticsBucket)],
+      ['query'],
+    ),
+  'getEntryColumnLayout' : IDL.Func(
+      [],
+      [IDL.Vec(EntryColumnSetting)],
+      ['query'],
+    ),
+  'getEntryHistory' : IDL.Func([IDL.Text], [IDL.Vec(EntryRevision)], ['query']),
+  'getTrashRetentionDays' : IDL.Func([], [IDL.Nat], ['query']),
   'getUserProfile' : IDL.Func(
       [IDL.Principal],
       [IDL.Opt(UserProfile)],
       ['query'],
     ),
   'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
+  'listAttachments' : IDL.Func([IDL.Text], [IDL.Vec(Attachment)], ['query']),
+  'listCategories' : IDL.Func([], [IDL.Vec(Category)], ['query']),
+  'listCustomerEntries' : IDL.Func(
+      [IDL.Text, IDL.Bool],
+      [IDL.Vec(Entry)],
+      ['query'],
+    ),
+  'listCustomers' : IDL.Func([IDL.Bool], [IDL.Vec(CustomerSummary)], ['query']),
   'listEntriesNewestFirst' : IDL.Func([], [IDL.Vec(Entry)], ['query']),
+  'listEntriesPage' : IDL.Func(
+      [IDL.Opt(EntryCursor), IDL.Nat, IDL.Bool],
+      [EntriesPage],
+      ['query'],
+    ),
+  'listEntryViews' : IDL.Func([], [IDL.Vec(EntryView)], ['query']),
+  'listTags' : IDL.Func([], [IDL.Vec(IDL.Text)], ['query']),
+  'listTrash' : IDL.Func([IDL.Bool], [IDL.Vec(Entry)], ['query']),
+  'purgeEntry' : IDL.Func([IDL.Text], [IDL.Opt(DeleteEntryError)], []),
+  'removeAttachment' : IDL.Func(
+      [IDL.Text, IDL.Nat],
+      [IDL.Opt(AttachmentError)],
+      [],
+    ),
+  'removePayment' : IDL.Func(
+      [IDL.Text, IDL.Nat],
+      [IDL.Opt(PaymentError)],
+      [],
+    ),
+  'restoreEntry' : IDL.Func([IDL.Text], [IDL.Opt(DeleteEntryError)], []),
   'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
+  'saveCategory' : IDL.Func(
+      [IDL.Opt(IDL.Nat), IDL.Text],
+      [IDL.Opt(SaveCategoryError)],
+      [],
+    ),
+  'saveCustomer' : IDL.Func([CustomerInput], [IDL.Opt(SaveCustomerError)], []),
+  'saveEntryColumnLayout' : IDL.Func([IDL.Vec(EntryColumnSetting)], [], []),
+  'saveEntryView' : IDL.Func(
+      [IDL.Opt(IDL.Nat), EntryViewInput],
+      [IDL.Opt(SaveEntryViewError)],
+      [],
+    ),
+  'searchEntries' : IDL.Func(
+      [EntryFilter, EntrySort, IDL.Nat, IDL.Nat, IDL.Bool],
+      [SearchEntriesResult],
+      ['query'],
+    ),
+  'setTrashRetentionDays' : IDL.Func([IDL.Nat], [], []),
+  'updateEntries' : IDL.Func(
+      [IDL.Vec(IDL.Text), BulkEntryUpdate],
+      [IDL.Vec(IDL.Opt(UpdateEntryError))],
+      [],
+    ),
   'updateEntry' : IDL.Func(
-      [IDL.Text, EntryInput],
+      [IDL.Text, EntryInput, IDL.Nat],
       [IDL.Opt(UpdateEntryError)],
       [],
     ),
+  'updatePayment' : IDL.Func(
+      [IDL.Text, IDL.Nat, PaymentInput],
+      [IDL.Opt(PaymentError)],
+      [],
+    ),
 });
 
 export const idlInitArgs = [];
@@ -76,16 +402,76 @@ export const idlFactory = ({ IDL }) => {
     'user' : IDL.Null,
     'guest' : IDL.Null,
   });
-  const EntryInput = IDL.Record({
-    'id' : IDL.Text,
+  const _CaffeineStorageCreateCertificateResult = IDL.Record({
+    'method' : IDL.Text,
+    'blob_hash' : IDL.Text,
+  });
+  const ExternalBlob = IDL.Vec(IDL.Nat8);
+  const AttachmentInput = IDL.Record({
+    'contentType' : IDL.Text,
+    'blob' : ExternalBlob,
+    'fileName' : IDL.Text,
+    'sizeBytes' : IDL.Nat,
+  });
+  const AttachmentError = IDL.Variant({
+    'notFound' : IDL.Record({ 'message' : IDL.Text }),
+    'invalidFile' : IDL.Record({ 'message' : IDL.Text }),
+    'unauthorized' : IDL.Record({ 'message' : IDL.Text }),
+  });
+  const PaymentMode = IDL.Variant({
+    'upi' : IDL.Null,
+    'other' : IDL.Null,
+    'cash' : IDL.Null,
+    'cheque' : IDL.Null,
+    'bankTransfer' : IDL.Null,
+  });
+  const PaymentInput = IDL.Record({
+    'date' : IDL.Text,
+    'mode' : PaymentMode,
+    'amountPaise' : IDL.Nat,
+  });
+  const PaymentError = IDL.Variant({
+    'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
+    'notFound' : IDL.Record({ 'message' : IDL.Text }),
+    'unauthorized' : IDL.Record({ 'message' : IDL.Text }),
+    'invalidAmount' : IDL.Record({ 'message' : IDL.Text }),
+    'invalidCategory' : IDL.Record({ 'message' : IDL.Text }),
+    'duplicateId' : IDL.Record({ 'message' : IDL.Text }),
+  });
+  const PaymentStatus = IDL.Variant({
+    'paid' : IDL.Null,
+    'pending' : IDL.Null,
+    'writtenOff' : IDL.Null,
+    'partiallyPaid' : IDL.Null,
+  });
+  const BulkEntryUpdate = IDL.Record({
+    'status' : IDL.Opt(PaymentStatus),
+    'settledDate' : IDL.Opt(IDL.Text),
+    'manualDate' : IDL.Opt(IDL.Text),
+  });
+  const EntryKind = IDL.Variant({ 'credit' : IDL.Null, 'debit' : IDL.Null });
+    const EntryInput = IDL.Record({
+    'status' : IDL.Opt(PaymentStatus),
+    'notes' : IDL.Text,
+    'categoryId' : IDL.Opt(IDL.Nat),
+    'tags' : IDL.Vec(IDL.Text),
+    'kind' : IDL.Opt(EntryKind),
+    'settledDate' : IDL.Opt(IDL.Text),
+    'id' : IDL.Opt(IDL.Text),
     'customerName' : IDL.Text,
     'mobileNumber' : IDL.Text,
-    'amountRs' : IDL.Nat,
+    'amountPaise' : IDL.Nat,
     'manualDate' : IDL.Text,
   });
   const CreateEntryError = IDL.Variant({
     'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
     'invalidAmount' : IDL.Record({ 'message' : IDL.Text }),
+    'invalidCategory' : IDL.Record({ 'message' : IDL.Text }),
+    'duplicateId' : IDL.Record({ 'message' : IDL.Text }),
+  });
+  const DeleteCategoryError = IDL.Variant({
+    'notFound' : IDL.Record({ 'message' : IDL.Text }),
+    'inUse' : IDL.Record({ 'message' : IDL.Text }),
   });
   const DeleteEntryError = IDL.Variant({
     'notFound' : IDL.Record({ 'message' : IDL.Text }),
@@ -93,42 +479,308 @@ export const idlFactory = ({ IDL }) => {
   });
   const UserProfile = IDL.Record({ 'name' : IDL.Text });
   const Time = IDL.Int;
+  const Attachment = IDL.Record({
+    'id' : IDL.Nat,
+    'contentType' : IDL.Text,
+    'blob' : ExternalBlob,
+    'fileName' : IDL.Text,
+    'sizeBytes' : IDL.Nat,
+    'uploadedAt' : Time,
+    'uploadedBy' : IDL.Opt(IDL.Principal),
+  });
+  const Customer = IDL.Record({
+    'name' : IDL.Text,
+    'alternateNames' : IDL.Vec(IDL.Text),
+    'createdAt' : Time,
+    'mobileNumber' : IDL.Text,
+    'updatedAt' : Time,
+    'notes' : IDL.Text,
+  });
+  const Payment = IDL.Record({
+    'id' : IDL.Nat,
+    'date' : IDL.Text,
+    'mode' : PaymentMode,
+    'recordedAt' : Time,
+    'recordedBy' : IDL.Opt(IDL.Principal),
+    'amountPaise' : IDL.Nat,
+  });
   const Entry = IDL.Record({
+    'status' : PaymentStatus,
+    'notes' : IDL.Text,
+    'categoryId' : IDL.Opt(IDL.Nat),
+    'tags' : IDL.Vec(IDL.Text),
+    'kind' : EntryKind,
+    'settledDate' : IDL.Opt(IDL.Text),
+    'payments' : IDL.Vec(Payment),
     'id' : IDL.Text,
+    'receiptNumber' : IDL.Text,
     'customerName' : IDL.Text,
     'owner' : IDL.Opt(IDL.Principal),
+    'deletedAt' : IDL.Opt(Time),
+    'deletedBy' : IDL.Opt(IDL.Principal),
+    'updatedAt' : Time,
+    'version' : IDL.Nat,
     'createdAt' : Time,
     'mobileNumber' : IDL.Text,
-    'amountRs' : IDL.Nat,
+    'amountPaise' : IDL.Nat,
     'manualDate' : IDL.Text,
   });
+  const Category = IDL.Record({ 'id' : IDL.Nat, 'name' : IDL.Text });
+  const EntryChange = IDL.Variant({
+    'created' : IDL.Null,
+    'deleted' : IDL.Null,
+    'restored' : IDL.Null,
+    'updated' : IDL.Null,
+  });
+  const EntryRevision = IDL.Record({
+    'status' : PaymentStatus,
+    'notes' : IDL.Text,
+    'categoryId' : IDL.Opt(IDL.Nat),
+    'tags' : IDL.Vec(IDL.Text),
+    'kind' : EntryKind,
+    'settledDate' : IDL.Opt(IDL.Text),
+    'customerName' : IDL.Text,
+    'changedAt' : Time,
+    'changedBy' : IDL.Opt(IDL.Principal),
+    'change' : EntryChange,
+    'mobileNumber' : IDL.Text,
+    'paidPaise' : IDL.Nat,
+    'amountPaise' : IDL.Nat,
+    'manualDate' : IDL.Text,
+  });
+  const EntryCursor = IDL.Record({ 'id' : IDL.Text, 'createdAt' : Time });
+  const EntriesPage = IDL.Record({
+    'entries' : IDL.Vec(Entry),
+    'nextCursor' : IDL.Opt(EntryCursor),
+  });
+  const EntryAnalyticsBucket = IDL.Record({
+    'month' : IDL.Nat,
+    'year' : IDL.Nat,
+    'count' : IDL.Nat,
+    'categoryId' : IDL.Opt(IDL.Nat),
+    'creditPaise' : IDL.Nat,
+    'debitPaise' : IDL.Nat,
+  });
+  const EntryFilter = IDL.Record({
+    'status' : IDL.Opt(PaymentStatus),
+    'notes' : IDL.Opt(IDL.Text),
+    'categoryId' : IDL.Opt(IDL.Nat),
+    'tag' : IDL.Opt(IDL.Text),
+    'minDays' : IDL.Opt(IDL.Int),
+    'maxDays' : IDL.Opt(IDL.Int),
+    'searchText' : IDL.Opt(IDL.Text),
+    'mobilePrefix' : IDL.Opt(IDL.Text),
+    'customerName' : IDL.Opt(IDL.Text),
+    'toDate' : IDL.Opt(IDL.Text),
+    'maxAmount' : IDL.Opt(IDL.Nat),
+    'minAmount' : IDL.Opt(IDL.Nat),
+    'fromDate' : IDL.Opt(IDL.Text),
+  });
+  const EntrySortField = IDL.Variant({
+    'customerName' : IDL.Null,
+    'createdAt' : IDL.Null,
+    'manualDate' : IDL.Null,
+    'amount' : IDL.Null,
+    'days' : IDL.Null,
+  });
+  const EntrySort = IDL.Record({
+    'field' : EntrySortField,
+    'descending' : IDL.Bool,
+  });
+  const EntryColumn = IDL.Variant({
+    'customerName' : IDL.Null,
+    'createdAt' : IDL.Null,
+    'mobileNumber' : IDL.Null,
+    'manualDate' : IDL.Null,
+    'amount' : IDL.Null,
+    'days' : IDL.Null,
+  });
+  const EntryColumnSetting = IDL.Record({
+    'column' : EntryColumn,
+    'visible' : IDL.Bool,
+  });
+  const DeleteEntryViewError = IDL.Variant({
+    'notFound' : IDL.Record({ 'message' : IDL.Text }),
+  });
+  const EntryView = IDL.Record({
+    'id' : IDL.Nat,
+    'columns' : IDL.Vec(EntryColumnSetting),
+    'name' : IDL.Text,
+    'sort' : EntrySort,
+    'filter' : EntryFilter,
+  });
+  const EntryViewInput = IDL.Record({
+    'columns' : IDL.Vec(EntryColumnSetting),
+    'name' : IDL.Text,
+    'sort' : EntrySort,
+    'filter' : EntryFilter,
+  });
+  const SaveEntryViewError = IDL.Variant({
+    'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
+    'notFound' : IDL.Record({ 'message' : IDL.Text }),
+    'tooMany' : IDL.Record({ 'message' : IDL.Text }),
+    'duplicateName' : IDL.Record({ 'message' : IDL.Text }),
+  });
+  const SaveCategoryError = IDL.Variant({
+    'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
+    'notFound' : IDL.Record({ 'message' : IDL.Text }),
+    'duplicateName' : IDL.Record({ 'message' : IDL.Text }),
+  });
+  const SearchEntriesResult = IDL.Record({
+    'entries' : IDL.Vec(Entry),
+    'nextOffset' : IDL.Opt(IDL.Nat),
+    'totalCount' : IDL.Nat,
+  });
+  const CustomerSummary = IDL.Record({
+    'lastTransactionDate' : IDL.Opt(IDL.Text),
+    'owner' : IDL.Principal,
+    'customer' : Customer,
+    'entryCount' : IDL.Nat,
+    'balancePaise' : IDL.Int,
+  });
+  const CustomerInput = IDL.Record({
+    'name' : IDL.Text,
+    'alternateNames' : IDL.Vec(IDL.Text),
+    'mobileNumber' : IDL.Text,
+    'notes' : IDL.Text,
+  });
+  const SaveCustomerError = IDL.Variant({
+    'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
+  });
   const UpdateEntryError = IDL.Variant({
+    'conflict' : IDL.Record({ 'current' : Entry, 'message' : IDL.Text }),
     'emptyField' : IDL.Record({ 'field' : IDL.Text, 'message' : IDL.Text }),
     'notFound' : IDL.Record({ 'message' : IDL.Text }),
     'unauthorized' : IDL.Record({ 'message' : IDL.Text }),
     'invalidAmount' : IDL.Record({ 'message' : IDL.Text }),
+    'invalidCategory' : IDL.Record({ 'message' : IDL.Text }),
+    'duplicateId' : IDL.Record({ 'message' : IDL.Text }),
   });
   
   return IDL.Service({
+    '_caffeineStorageCreateCertificate' : IDL.Func(
+        [IDL.Text],
+        [_CaffeineStorageCreateCertificateResult],
+        [],
+      ),
     '_initializeAccessControlWithSecret' : IDL.Func([IDL.Text], [], []),
+    'addAttachment' : IDL.Func(
+        [IDL.Text, AttachmentInput],
+        [IDL.Opt(AttachmentError)],
+        [],
+      ),
+    'addPayment' : IDL.Func(
+        [IDL.Text, PaymentInput],
+        [IDL.Opt(PaymentError)],
+        [],
+      ),
     'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
+    'createEntries' : IDL.Func(
+        [IDL.Vec(EntryInput)],
+        [IDL.Vec(IDL.Opt(CreateEntryError))],
+        [],
+      ),
     'createEntry' : IDL.Func([EntryInput], [IDL.Opt(CreateEntryError)], []),
+    'deleteCategory' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Opt(DeleteCategoryError)],
+        [],
+      ),
+    'deleteEntries' : IDL.Func(
+        [IDL.Vec(IDL.Text)],
+        [IDL.Vec(IDL.Opt(DeleteEntryError))],
+        [],
+      ),
     'deleteEntry' : IDL.Func([IDL.Text], [IDL.Opt(DeleteEntryError)], []),
+    'deleteEntryView' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Opt(DeleteEntryViewError)],
+        [],
+      ),
     'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
     'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
+    'getCustomer' : IDL.Func([IDL.Text], [IDL.Opt(Customer)], ['query']),
+    'getEntryAnalytics' : IDL.Func(
+        [IDL.Bool],
+        [IDL.Vec(EntryAnalyticsBucket)],
+        ['query'],
+      ),
+    'getEntryColumnLayout' : IDL.Func(
+        [],
+        [IDL.Vec(EntryColumnSetting)],
+        ['query'],
+      ),
+    'getEntryHistory' : IDL.Func([IDL.Text], [IDL.Vec(EntryRevision)], ['query']),
+    'getTrashRetentionDays' : IDL.Func([], [IDL.Nat], ['query']),
     'getUserProfile' : IDL.Func(
         [IDL.Principal],
         [IDL.Opt(UserProfile)],
         ['query'],
       ),
     'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
+    'listAttachments' : IDL.Func([IDL.Text], [IDL.Vec(Attachment)], ['query']),
+    'listCategories' : IDL.Func([], [IDL.Vec(Category)], ['query']),
+    'listCustomerEntries' : IDL.Func(
+        [IDL.Text, IDL.Bool],
+        [IDL.Vec(Entry)],
+        ['query'],
+      ),
+    'listCustomers' : IDL.Func([IDL.Bool], [IDL.Vec(CustomerSummary)], ['query']),
     'listEntriesNewestFirst' : IDL.Func([], [IDL.Vec(Entry)], ['query']),
+    'listEntriesPage' : IDL.Func(
+        [IDL.Opt(EntryCursor), IDL.Nat, IDL.Bool],
+        [EntriesPage],
+        ['query'],
+      ),
+    'listEntryViews' : IDL.Func([], [IDL.Vec(EntryView)], ['query']),
+    'listTags' : IDL.Func([], [IDL.Vec(IDL.Text)], ['query']),
+    'listTrash' : IDL.Func([IDL.Bool], [IDL.Vec(Entry)], ['query']),
+    'purgeEntry' : IDL.Func([IDL.Text], [IDL.Opt(DeleteEntryError)], []),
+    'removeAttachment' : IDL.Func(
+        [IDL.Text, IDL.Nat],
+        [IDL.Opt(AttachmentError)],
+        [],
+      ),
+    'removePayment' : IDL.Func(
+        [IDL.Text, IDL.Nat],
+        [IDL.Opt(PaymentError)],
+        [],
+      ),
+    'restoreEntry' : IDL.Func([IDL.Text], [IDL.Opt(DeleteEntryError)], []),
     'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
+    'saveCategory' : IDL.Func(
+        [IDL.Opt(IDL.Nat), IDL.Text],
+        [IDL.Opt(SaveCategoryError)],
+        [],
+      ),
+    'saveCustomer' : IDL.Func([CustomerInput], [IDL.Opt(SaveCustomerError)], []),
+    'saveEntryColumnLayout' : IDL.Func([IDL.Vec(EntryColumnSetting)], [], []),
+    'saveEntryView' : IDL.Func(
+        [IDL.Opt(IDL.Nat), EntryViewInput],
+        [IDL.Opt(SaveEntryViewError)],
+        [],
+      ),
+    'searchEntries' : IDL.Func(
+        [EntryFilter, EntrySort, IDL.Nat, IDL.Nat, IDL.Bool],
+        [SearchEntriesResult],
+        ['query'],
+      ),
+    'setTrashRetentionDays' : IDL.Func([IDL.Nat], [], []),
+    'updateEntries' : IDL.Func(
+        [IDL.Vec(IDL.Text), BulkEntryUpdate],
+        [IDL.Vec(IDL.Opt(UpdateEntryError))],
+        [],
+      ),
     'updateEntry' : IDL.Func(
-        [IDL.Text, EntryInput],
+        [IDL.Text, EntryInput, IDL.Nat],
         [IDL.Opt(UpdateEntryError)],
         [],
       ),
+    'updatePayment' : IDL.Func(
+        [IDL.Text, IDL.Nat, PaymentInput],
+        [IDL.Opt(PaymentError)],
+        [],
+      ),
   });
 };
 
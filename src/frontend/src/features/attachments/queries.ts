@@ -0,0 +1,123 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useActor } from '../../hooks/useActor';
+import { ExternalBlob, type Attachment, type AttachmentError } from '../../backend';
+import { ENTRIES_QUERY_KEY } from '../entries/queries';
+import { isAuthorizationError, getSaveAttachmentAuthMessage } from '../../utils/authErrors';
+
+// Nested under the entries key so purging an entry refreshes its attachments too
+export const ATTACHMENTS_QUERY_KEY = [...ENTRIES_QUERY_KEY, 'attachments'];
+
+export interface AddAttachmentInput {
+  entryId: string;
+  file: File;
+  // Upload progress from 0 to 100
+  onProgress?: (percentage: number) => void;
+}
+
+export interface RemoveAttachmentInput {
+  entryId: string;
+  attachmentId: bigint;
+}
+
+/**
+ * Lists the photos and PDFs attached to an entry, oldest first.
+ */
+export function useListAttachments(entryId: string | null) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Attachment[]>({
+    queryKey: [...ATTACHMENTS_QUERY_KEY, entryId ?? ''],
+    queryFn: async () => {
+      if (!actor || !entryId) return [];
+      return actor.listAttachments(entryId);
+    },
+    enabled: !!entryId && !!actor && !isFetching,
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
+
+function getAttachmentErrorMessage(result: AttachmentError): string {
+  if (result.__kind__ === 'invalidFile') {
+    return result.invalidFile.message;
+  } else if (result.__kind__ === 'notFound') {
+    return result.notFound.message;
+  } else if (result.__kind__ === 'unauthorized') {
+    return result.unauthorized.message;
+  }
+  return 'Failed to save attachment. Please try again.';
+}
+
+// Runs an attachment call, turning backend errors and traps into English messages
+async function runAttachmentCall(call: () => Promise<AttachmentError | null>): Promise<void> {
+  try {
+    const result = await call();
+
+    // If backend returned an error, throw it with the English message
+    if (result !== null) {
+      throw new Error(getAttachmentErrorMessage(result));
+    }
+  } catch (error) {
+    // Check if this is an authorization error (trap)
+    if (isAuthorizationError(error)) {
+      throw new Error(getSaveAttachmentAuthMessage());
+    }
+    // Re-throw other errors
+    throw error;
+  }
+}
+
+/**
+ * Uploads a file to storage and attaches it to an entry.
+ */
+export function useAddAttachment() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ entryId, file, onProgress }: AddAttachmentInput) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      let blob = ExternalBlob.fromBytes(new Uint8Array(await file.arrayBuffer()));
+      if (onProgress) {
+        blob = blob.withUploadProgress(onProgress);
+      }
+      await runAttachmentCall(() =>
+        actor.addAttachment(entryId, {
+          fileName: file.name,
+          contentType: file.type,
+          sizeBytes: BigInt(file.size),
+          blob,
+        })
+      );
+    },
+    onSuccess: (_data, { entryId }) => {
+      queryClient.invalidateQueries({ queryKey: [...ATTACHMENTS_QUERY_KEY, entryId] });
+    },
+  });
+}
+
+export function useRemoveAttachment() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ entryId, attachmentId }: RemoveAttachmentInput) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+      await runAttachmentCall(() => actor.removeAttachment(entryId, attachmentId));
+    },
+    onSuccess: (_data, { entryId }) => {
+      queryClient.invalidateQueries({ queryKey: [...ATTACHMENTS_QUERY_KEY, entryId] });
+    },
+  });
+}
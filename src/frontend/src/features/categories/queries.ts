@@ -0,0 +1,136 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useActor } from '../../hooks/useActor';
+import type { Category, DeleteCategoryError, SaveCategoryError } from '../../backend';
+import { ENTRIES_QUERY_KEY } from '../entries/queries';
+import { isAuthorizationError } from '../../utils/authErrors';
+
+export const CATEGORIES_QUERY_KEY = ['categories'];
+
+// Nested under the entries key: tags come from the entries themselves
+export const TAGS_QUERY_KEY = [...ENTRIES_QUERY_KEY, 'tags'];
+
+export interface CategoryFormInput {
+  // Undefined adds a new category
+  id?: bigint;
+  name: string;
+}
+
+/**
+ * Lists the admin-defined entry categories by name.
+ */
+export function useListCategories() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Category[]>({
+    queryKey: CATEGORIES_QUERY_KEY,
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listCategories();
+    },
+    enabled: !!actor && !isFetching,
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
+
+/**
+ * Lists the distinct tags on the caller's entries, for suggestions while tagging.
+ */
+export function useListTags() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<string[]>({
+    queryKey: TAGS_QUERY_KEY,
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listTags();
+    },
+    enabled: !!actor && !isFetching,
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
+
+function getSaveCategoryErrorMessage(result: SaveCategoryError): string {
+  if (result.__kind__ === 'emptyField') {
+    return result.emptyField.message;
+  } else if (result.__kind__ === 'duplicateName') {
+    return result.duplicateName.message;
+  } else if (result.__kind__ === 'notFound') {
+    return result.notFound.message;
+  }
+  return 'Failed to save category. Please try again.';
+}
+
+function getDeleteCategoryErrorMessage(result: DeleteCategoryError): string {
+  if (result.__kind__ === 'inUse') {
+    return result.inUse.message;
+  } else if (result.__kind__ === 'notFound') {
+    return result.notFound.message;
+  }
+  return 'Failed to delete category. Please try again.';
+}
+
+/**
+ * Adds a category or renames an existing one. Admin only.
+ */
+export function useSaveCategory() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, name }: CategoryFormInput) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      const result = await actor.saveCategory(id ?? null, name);
+
+      // If backend returned an error, throw it with the English message
+      if (result !== null) {
+        throw new Error(getSaveCategoryErrorMessage(result));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Deletes a category that no entry uses. Admin only.
+ */
+export function useDeleteCategory() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: bigint) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      const result = await actor.deleteCategory(id);
+
+      // If backend returned an error, throw it with the English message
+      if (result !== null) {
+        throw new Error(getDeleteCategoryErrorMessage(result));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY });
+    },
+  });
+}
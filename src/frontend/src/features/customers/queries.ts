@@ -0,0 +1,126 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useActor } from '../../hooks/useActor';
+import type { Customer, CustomerSummary, Entry } from '../../backend';
+import { ENTRIES_QUERY_KEY } from '../entries/queries';
+import { isAuthorizationError, getSaveCustomerAuthMessage } from '../../utils/authErrors';
+
+// Nested under the entries key: entry changes add customers and change their totals
+export const CUSTOMERS_QUERY_KEY = [...ENTRIES_QUERY_KEY, 'customers'];
+
+export interface CustomerFormInput {
+  mobileNumber: string;
+  name: string;
+  alternateNames: string[];
+  notes: string;
+}
+
+export interface ListCustomersOptions {
+  // Admin only: list every user's directory instead of the caller's own
+  allUsers?: boolean;
+}
+
+/**
+ * Lists the caller's customer directory by name, each with the entry count, net
+ * balance (debits minus credits) and last transaction date of the caller's entries.
+ */
+export function useListCustomers({ allUsers = false }: ListCustomersOptions = {}) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<CustomerSummary[]>({
+    queryKey: [...CUSTOMERS_QUERY_KEY, allUsers ? 'all' : 'mine'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listCustomers(allUsers);
+    },
+    enabled: !!actor && !isFetching,
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
+
+/**
+ * Loads one customer from the caller's directory by mobile number; resolves to
+ * null if there is none.
+ */
+export function useCustomer(mobileNumber: string) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Customer | null>({
+    queryKey: [...CUSTOMERS_QUERY_KEY, 'detail', mobileNumber],
+    queryFn: async () => {
+      if (!actor) return null;
+      return actor.getCustomer(mobileNumber);
+    },
+    enabled: !!actor && !isFetching && mobileNumber !== '',
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
+
+/**
+ * Lists one customer's entries in ledger order, oldest manual date first.
+ */
+export function useCustomerEntries(mobileNumber: string, { allUsers = false }: ListCustomersOptions = {}) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Entry[]>({
+    queryKey: [...CUSTOMERS_QUERY_KEY, 'entries', mobileNumber, allUsers ? 'all' : 'mine'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listCustomerEntries(mobileNumber, allUsers);
+    },
+    enabled: !!actor && !isFetching && mobileNumber !== '',
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
+
+export function useSaveCustomer() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CustomerFormInput) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      try {
+        const result = await actor.saveCustomer(input);
+
+        // If backend returned an error, throw it with the English message
+        if (result !== null) {
+          throw new Error(result.emptyField.message);
+        }
+      } catch (error) {
+        // Check if this is an authorization error (trap)
+        if (isAuthorizationError(error)) {
+          throw new Error(getSaveCustomerAuthMessage());
+        }
+        // Re-throw other errors
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CUSTOMERS_QUERY_KEY });
+    },
+  });
+}
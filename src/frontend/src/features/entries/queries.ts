@@ -1,15 +1,65 @@
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient, type InfiniteData, type QueryKey } from '@tanstack/react-query';
 import { useActor } from '../../hooks/useActor';
-import type { Entry, EntryInput, CreateEntryError, UpdateEntryError, DeleteEntryError } from '../../backend';
-import { isAuthorizationError, getCreateEntryAuthMessage, getUpdateEntryAuthMessage, getDeleteEntryAuthMessage } from '../../utils/authErrors';
+import { EntryKind, EntrySortField, type Entry, type EntryAnalyticsBucket, type PaymentStatus, type EntryCursor, type EntriesPage, type EntryFilter, type EntrySort, type EntryInput, type EntryRevision, type SearchEntriesResult, type CreateEntryError, type UpdateEntryError, type DeleteEntryError } from '../../backend';
+import { formatPaiseAsDecimal, parseRupeesToPaise, splitRupeeSign } from '../../utils/amount';
+import { isSettledStatus } from '../../utils/paymentStatus';
+import { isAuthorizationError, getCreateEntryAuthMessage, getUpdateEntryAuthMessage, getDeleteEntryAuthMessage, getRestoreEntryAuthMessage } from '../../utils/authErrors';
 
 export const ENTRIES_QUERY_KEY = ['entries'];
 
+// Nested under the entries key so every entries invalidation refreshes the trash too
+export const TRASH_QUERY_KEY = [...ENTRIES_QUERY_KEY, 'trash'];
+
+// Also nested under the entries key, so edits invalidate open history panels
+export const ENTRY_HISTORY_QUERY_KEY = [...ENTRIES_QUERY_KEY, 'history'];
+
+export const TRASH_RETENTION_QUERY_KEY = ['trashRetentionDays'];
+
+// Entries fetched per listEntriesPage call
+export const ENTRIES_PAGE_SIZE = 50;
+
 export interface CreateEntryInput {
   manualDate: string;
   customerName: string;
   mobileNumber: string;
   amountRs: string;
+  // Defaults to debit; a negative amountRs, as in imported files, makes a credit
+  kind?: EntryKind;
+  notes?: string;
+  categoryId?: bigint;
+  tags?: string[];
+}
+
+export interface CreateEntriesInput {
+  rows: CreateEntryInput[];
+  onProgress?: (processed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface CreateEntriesResult {
+  successCount: number;
+  failures: Array<{ index: number; message: string }>;
+  cancelled: boolean;
+}
+
+// Rows sent per createEntries call; keeps each update call well under message limits
+export const CREATE_ENTRIES_CHUNK_SIZE = 100;
+
+// Most ids a single updateEntries or deleteEntries call accepts; the backend's maxBulkSize
+export const MAX_BULK_ENTRIES = 50_000;
+
+export interface BulkEntriesResult {
+  successCount: number;
+  failures: Array<{ id: string; message: string }>;
+}
+
+export interface UpdateEntriesInput {
+  ids: string[];
+  // Unset fields are left as they are on each entry
+  manualDate?: string;
+  status?: PaymentStatus;
+  // Sent only for settled statuses
+  settledDate?: string;
 }
 
 export interface UpdateEntryInput {
@@ -18,16 +68,84 @@ export interface UpdateEntryInput {
   customerName: string;
   mobileNumber: string;
   amountRs: string;
+  kind: EntryKind;
+  notes: string;
+  // Undefined leaves the entry uncategorized
+  categoryId: bigint | undefined;
+  tags: string[];
+  status: PaymentStatus;
+  // Sent only for settled statuses
+  settledDate: string;
+  // Version of the entry the edit was based on; the backend rejects the update if it has moved on
+  expectedVersion: bigint;
 }
 
-export function useListEntries() {
+/**
+ * Thrown by useUpdateEntry when the entry was changed by someone else since
+ * it was read. `current` is the entry as now stored in the backend.
+ */
+export class EntryConflictError extends Error {
+  readonly current: Entry;
+
+  constructor(message: string, current: Entry) {
+    super(message);
+    this.name = 'EntryConflictError';
+    this.current = current;
+  }
+}
+
+export interface ListEntriesOptions {
+  // Admin only: list every user's entries instead of the caller's own
+  allUsers?: boolean;
+}
+
+// Defined once so the pages are only flattened again when they change, not on every render
+function selectListedEntries(data: InfiniteData<EntriesPage>): Entry[] {
+  return data.pages.flatMap((page) => page.entries);
+}
+
+/**
+ * Lists the caller's entries newest first, one cursor-paginated page at a time.
+ * `data` is the flattened list of all pages loaded so far; call
+ * `fetchNextPage` while `hasNextPage` is true to load more.
+ */
+export function useListEntries({ allUsers = false }: ListEntriesOptions = {}) {
   const { actor, isFetching } = useActor();
 
-  return useQuery<Entry[]>({
-    queryKey: ENTRIES_QUERY_KEY,
+  return useInfiniteQuery<EntriesPage, Error, Entry[], string[], EntryCursor | null>({
+    queryKey: [...ENTRIES_QUERY_KEY, allUsers ? 'all' : 'mine'],
+    queryFn: async ({ pageParam }) => {
+      if (!actor) return { entries: [] };
+      return actor.listEntriesPage(pageParam, BigInt(ENTRIES_PAGE_SIZE), allUsers);
+    },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    select: selectListedEntries,
+    enabled: !!actor && !isFetching,
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
+
+/**
+ * Per-month totals of the caller's entries for the analytics charts,
+ * aggregated on the backend so the charts cover every entry without loading
+ * them all. Refreshed along with the entries list.
+ */
+export function useEntryAnalytics({ allUsers = false }: ListEntriesOptions = {}) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<EntryAnalyticsBucket[]>({
+    queryKey: [...ENTRIES_QUERY_KEY, 'analytics', allUsers ? 'all' : 'mine'],
     queryFn: async () => {
       if (!actor) return [];
-      return actor.listEntriesNewestFirst();
+      return actor.getEntryAnalytics(allUsers);
     },
     enabled: !!actor && !isFetching,
     retry: (failureCount, error) => {
@@ -41,6 +159,243 @@ export function useListEntries() {
   });
 }
 
+// Filter bar values; empty strings mean "no filter" for that field
+export interface EntrySearchFilters {
+  // Quick search across receipt number, name, mobile number, notes and tags
+  searchText: string;
+  customerName: string;
+  mobilePrefix: string;
+  fromDate: string;
+  toDate: string;
+  minAmount: string;
+  maxAmount: string;
+  status: PaymentStatus | '';
+  notes: string;
+  // Category id as a string, for the select
+  categoryId: string;
+  tag: string;
+  // Whole days, as in the DAYS column
+  minDays: string;
+  maxDays: string;
+  sortField: EntrySortField;
+  descending: boolean;
+}
+
+export const EMPTY_ENTRY_SEARCH_FILTERS: EntrySearchFilters = {
+  searchText: '',
+  customerName: '',
+  mobilePrefix: '',
+  fromDate: '',
+  toDate: '',
+  minAmount: '',
+  maxAmount: '',
+  status: '',
+  notes: '',
+  categoryId: '',
+  tag: '',
+  minDays: '',
+  maxDays: '',
+  sortField: EntrySortField.createdAt,
+  descending: true,
+};
+
+export interface SearchEntriesOptions {
+  // Admin only: search every user's entries instead of the caller's own
+  allUsers?: boolean;
+  enabled?: boolean;
+}
+
+export interface SearchEntriesData {
+  entries: Entry[];
+  totalCount: number;
+}
+
+/**
+ * True if any filter is set or the sort differs from the default newest-first
+ * order, i.e. the listing has to come from searchEntries.
+ */
+export function hasActiveEntrySearch(filters: EntrySearchFilters): boolean {
+  return (
+    filters.searchText.trim() !== '' ||
+    filters.customerName.trim() !== '' ||
+    filters.mobilePrefix.trim() !== '' ||
+    filters.fromDate !== '' ||
+    filters.toDate !== '' ||
+    filters.minAmount.trim() !== '' ||
+    filters.maxAmount.trim() !== '' ||
+    filters.status !== '' ||
+    filters.notes.trim() !== '' ||
+    filters.categoryId !== '' ||
+    filters.tag.trim() !== '' ||
+    filters.minDays.trim() !== '' ||
+    filters.maxDays.trim() !== '' ||
+    filters.sortField !== EMPTY_ENTRY_SEARCH_FILTERS.sortField ||
+    filters.descending !== EMPTY_ENTRY_SEARCH_FILTERS.descending
+  );
+}
+
+// Amount bounds are sent in paise; invalid input leaves the bound unset
+function parseAmountBound(value: string): bigint | undefined {
+  return parseRupeesToPaise(value) ?? undefined;
+}
+
+// Day bounds must be whole numbers; anything else leaves the bound unset
+function parseDaysBound(value: string): bigint | undefined {
+  const trimmed = value.trim();
+  return /^-?\d+$/.test(trimmed) ? BigInt(trimmed) : undefined;
+}
+
+export function buildEntryFilter(filters: EntrySearchFilters): EntryFilter {
+  return {
+    searchText: filters.searchText.trim() || undefined,
+    customerName: filters.customerName.trim() || undefined,
+    mobilePrefix: filters.mobilePrefix.trim() || undefined,
+    fromDate: filters.fromDate || undefined,
+    toDate: filters.toDate || undefined,
+    minAmount: parseAmountBound(filters.minAmount),
+    maxAmount: parseAmountBound(filters.maxAmount),
+    status: filters.status || undefined,
+    notes: filters.notes.trim() || undefined,
+    categoryId: filters.categoryId ? BigInt(filters.categoryId) : undefined,
+    tag: filters.tag.trim() || undefined,
+    minDays: parseDaysBound(filters.minDays),
+    maxDays: parseDaysBound(filters.maxDays),
+  };
+}
+
+/**
+ * Filter bar values for a backend filter and sort, e.g. those of a saved
+ * view. The reverse of buildEntryFilter.
+ */
+export function searchFiltersFromEntryFilter(filter: EntryFilter, sort: EntrySort): EntrySearchFilters {
+  const text = (value: string | bigint | undefined) => (value === undefined ? '' : value.toString());
+  const amount = (value: bigint | undefined) => (value === undefined ? '' : formatPaiseAsDecimal(value));
+
+  return {
+    searchText: text(filter.searchText),
+    customerName: text(filter.customerName),
+    mobilePrefix: text(filter.mobilePrefix),
+    fromDate: text(filter.fromDate),
+    toDate: text(filter.toDate),
+    minAmount: amount(filter.minAmount),
+    maxAmount: amount(filter.maxAmount),
+    status: filter.status ?? '',
+    notes: text(filter.notes),
+    categoryId: text(filter.categoryId),
+    tag: text(filter.tag),
+    minDays: text(filter.minDays),
+    maxDays: text(filter.maxDays),
+    sortField: sort.field,
+    descending: sort.descending,
+  };
+}
+
+function selectSearchedEntries(data: InfiniteData<SearchEntriesResult>): SearchEntriesData {
+  return {
+    entries: data.pages.flatMap((page) => page.entries),
+    totalCount: Number(data.pages[0]?.totalCount ?? 0),
+  };
+}
+
+/**
+ * Searches the caller's entries on the backend, one offset-paginated page at a
+ * time. `data.entries` holds all pages loaded so far and `data.totalCount` the
+ * number of matches; call `fetchNextPage` while `hasNextPage` is true.
+ */
+export function useSearchEntries(
+  filters: EntrySearchFilters,
+  { allUsers = false, enabled = true }: SearchEntriesOptions = {}
+) {
+  const { actor, isFetching } = useActor();
+
+  return useInfiniteQuery<SearchEntriesResult, Error, SearchEntriesData, QueryKey, number>({
+    queryKey: [...ENTRIES_QUERY_KEY, 'search', allUsers ? 'all' : 'mine', filters],
+    queryFn: async ({ pageParam }) => {
+      if (!actor) return { entries: [], totalCount: BigInt(0) };
+      return actor.searchEntries(
+        buildEntryFilter(filters),
+        { field: filters.sortField, descending: filters.descending },
+        BigInt(pageParam),
+        BigInt(ENTRIES_PAGE_SIZE),
+        allUsers
+      );
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) =>
+      lastPage.nextOffset === undefined ? undefined : Number(lastPage.nextOffset),
+    select: selectSearchedEntries,
+    enabled: enabled && !!actor && !isFetching,
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
+
+// Builds the backend EntryInput for a new entry (without id, receipt number or
+// createdAt - the backend assigns them)
+function buildNewEntryInput(input: CreateEntryInput): EntryInput {
+  // Convert the rupee amount to paise; invalid amounts become 0, which the backend rejects
+  const { negative, rupees } = splitRupeeSign(input.amountRs);
+  const amountPaise = parseRupeesToPaise(rupees) ?? BigInt(0);
+
+  return {
+    manualDate: input.manualDate,
+    customerName: input.customerName,
+    mobileNumber: input.mobileNumber,
+    amountPaise,
+    kind: negative ? EntryKind.credit : input.kind ?? EntryKind.debit,
+    notes: input.notes?.trim() ?? '',
+    categoryId: input.categoryId,
+    tags: input.tags ?? [],
+  };
+}
+
+function getDeleteEntryErrorMessage(result: DeleteEntryError, fallback: string): string {
+  if (result.__kind__ === 'notFound') {
+    return result.notFound.message;
+  } else if (result.__kind__ === 'unauthorized') {
+    return result.unauthorized.message;
+  }
+  return fallback;
+}
+
+function getUpdateEntryErrorMessage(result: UpdateEntryError): string {
+  if (result.__kind__ === 'notFound') {
+    return result.notFound.message;
+  } else if (result.__kind__ === 'unauthorized') {
+    return result.unauthorized.message;
+  } else if (result.__kind__ === 'conflict') {
+    return result.conflict.message;
+  } else if (result.__kind__ === 'emptyField') {
+    return result.emptyField.message;
+  } else if (result.__kind__ === 'invalidAmount') {
+    return result.invalidAmount.message;
+  } else if (result.__kind__ === 'invalidCategory') {
+    return result.invalidCategory.message;
+  } else if (result.__kind__ === 'duplicateId') {
+    return result.duplicateId.message;
+  }
+  return 'Failed to update entry. Please try again.';
+}
+
+function getCreateEntryErrorMessage(result: CreateEntryError): string {
+  if (result.__kind__ === 'emptyField') {
+    return result.emptyField.message;
+  } else if (result.__kind__ === 'invalidAmount') {
+    return result.invalidAmount.message;
+  } else if (result.__kind__ === 'invalidCategory') {
+    return result.invalidCategory.message;
+  } else if (result.__kind__ === 'duplicateId') {
+    return result.duplicateId.message;
+  }
+  return 'Failed to save entry. Please try again.';
+}
+
 export function useCreateEntry() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
@@ -51,20 +406,7 @@ export function useCreateEntry() {
         throw new Error('Actor not initialized');
       }
 
-      // Generate unique ID (timestamp + random)
-      const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      
-      // Convert amount to Nat (BigInt)
-      const amountRs = BigInt(Math.floor(parseFloat(input.amountRs)));
-
-      // Create EntryInput object (without createdAt - backend sets it)
-      const entryInput: EntryInput = {
-        id,
-        manualDate: input.manualDate,
-        customerName: input.customerName,
-        mobileNumber: input.mobileNumber,
-        amountRs,
-      };
+      const entryInput = buildNewEntryInput(input);
 
       try {
         // Call backend with EntryInput object
@@ -72,15 +414,7 @@ export function useCreateEntry() {
 
         // If backend returned an error, throw it with the English message
         if (result !== null) {
-          let errorMessage = 'Failed to save entry. Please try again.';
-          
-          if (result.__kind__ === 'emptyField') {
-            errorMessage = result.emptyField.message;
-          } else if (result.__kind__ === 'invalidAmount') {
-            errorMessage = result.invalidAmount.message;
-          }
-          
-          throw new Error(errorMessage);
+          throw new Error(getCreateEntryErrorMessage(result));
         }
       } catch (error) {
         // Check if this is an authorization error
@@ -98,6 +432,62 @@ export function useCreateEntry() {
   });
 }
 
+/**
+ * Creates many entries through the batch createEntries method, one chunk per
+ * update call. Progress is reported after each chunk and an aborted signal
+ * stops before the next chunk is sent. The entries list is refreshed once.
+ */
+export function useCreateEntries() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ rows, onProgress, signal }: CreateEntriesInput): Promise<CreateEntriesResult> => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      const result: CreateEntriesResult = { successCount: 0, failures: [], cancelled: false };
+
+      for (let start = 0; start < rows.length; start += CREATE_ENTRIES_CHUNK_SIZE) {
+        if (signal?.aborted) {
+          result.cancelled = true;
+          break;
+        }
+
+        const chunk = rows.slice(start, start + CREATE_ENTRIES_CHUNK_SIZE);
+
+        try {
+          const chunkResults = await actor.createEntries(chunk.map(buildNewEntryInput));
+
+          chunkResults.forEach((error, i) => {
+            if (error === null) {
+              result.successCount++;
+            } else {
+              result.failures.push({ index: start + i, message: getCreateEntryErrorMessage(error) });
+            }
+          });
+        } catch (error) {
+          // Check if this is an authorization error
+          if (isAuthorizationError(error)) {
+            throw new Error(getCreateEntryAuthMessage());
+          }
+          // Re-throw other errors
+          throw error;
+        }
+
+        onProgress?.(Math.min(start + chunk.length, rows.length), rows.length);
+      }
+
+      return result;
+    },
+    onSettled: () => {
+      // Refresh once after all chunks, including partially completed imports
+      queryClient.invalidateQueries({ queryKey: ENTRIES_QUERY_KEY });
+    },
+  });
+}
+
 export function useUpdateEntry() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
@@ -108,37 +498,34 @@ export function useUpdateEntry() {
         throw new Error('Actor not initialized');
       }
 
-      // Convert amount to Nat (BigInt)
-      const amountRs = BigInt(Math.floor(parseFloat(input.amountRs)));
+      // Convert the rupee amount to paise; invalid amounts become 0, which the backend rejects
+      const amountPaise = parseRupeesToPaise(input.amountRs) ?? BigInt(0);
 
       // Create EntryInput object for update
       const entryInput: EntryInput = {
-        id: input.id,
         manualDate: input.manualDate,
         customerName: input.customerName,
         mobileNumber: input.mobileNumber,
-        amountRs,
+        amountPaise,
+        kind: input.kind,
+        notes: input.notes.trim(),
+        categoryId: input.categoryId,
+        tags: input.tags,
+        status: input.status,
+        settledDate: isSettledStatus(input.status) ? input.settledDate : undefined,
       };
 
       try {
         // Call backend update method
-        const result = await actor.updateEntry(input.id, entryInput);
+        const result = await actor.updateEntry(input.id, entryInput, input.expectedVersion);
+
+        if (result?.__kind__ === 'conflict') {
+          throw new EntryConflictError(result.conflict.message, result.conflict.current);
+        }
 
         // If backend returned an error, throw it with the English message
         if (result !== null) {
-          let errorMessage = 'Failed to update entry. Please try again.';
-          
-          if (result.__kind__ === 'emptyField') {
-            errorMessage = result.emptyField.message;
-          } else if (result.__kind__ === 'invalidAmount') {
-            errorMessage = result.invalidAmount.message;
-          } else if (result.__kind__ === 'notFound') {
-            errorMessage = result.notFound.message;
-          } else if (result.__kind__ === 'unauthorized') {
-            errorMessage = result.unauthorized.message;
-          }
-          
-          throw new Error(errorMessage);
+          throw new Error(getUpdateEntryErrorMessage(result));
         }
       } catch (error) {
         // Check if this is an authorization error (trap)
@@ -153,6 +540,12 @@ export function useUpdateEntry() {
       // Invalidate and refetch entries list
       queryClient.invalidateQueries({ queryKey: ENTRIES_QUERY_KEY });
     },
+    onError: (error) => {
+      // The cached copy is stale; refetch so the list shows the current values
+      if (error instanceof EntryConflictError) {
+        queryClient.invalidateQueries({ queryKey: ENTRIES_QUERY_KEY });
+      }
+    },
   });
 }
 
@@ -167,21 +560,116 @@ export function useDeleteEntry() {
       }
 
       try {
-        // Call backend delete method
+        // Moves the entry to the trash
         const result = await actor.deleteEntry(id);
 
         // If backend returned an error, throw it with the English message
         if (result !== null) {
-          let errorMessage = 'Failed to delete entry. Please try again.';
-          
-          if (result.__kind__ === 'notFound') {
-            errorMessage = result.notFound.message;
-          } else if (result.__kind__ === 'unauthorized') {
-            errorMessage = result.unauthorized.message;
+          throw new Error(getDeleteEntryErrorMessage(result, 'Failed to delete entry. Please try again.'));
+        }
+      } catch (error) {
+        // Check if this is an authorization error (trap)
+        if (isAuthorizationError(error)) {
+          throw new Error(getDeleteEntryAuthMessage());
+        }
+        // Re-throw other errors
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      // Invalidate and refetch entries list
+      queryClient.invalidateQueries({ queryKey: ENTRIES_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Applies one change, e.g. a new manual date or status, to many entries in
+ * a single updateEntries call. Rows the backend rejects are returned as
+ * failures with its message; the rest are saved.
+ */
+export function useUpdateEntries() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ ids, manualDate, status, settledDate }: UpdateEntriesInput): Promise<BulkEntriesResult> => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      if (ids.length > MAX_BULK_ENTRIES) {
+        throw new Error(`At most ${MAX_BULK_ENTRIES.toLocaleString()} entries can be updated at once`);
+      }
+
+      const result: BulkEntriesResult = { successCount: 0, failures: [] };
+      const changes = {
+        manualDate: manualDate || undefined,
+        status,
+        settledDate: status && isSettledStatus(status) ? settledDate : undefined,
+      };
+
+      try {
+        const results = await actor.updateEntries(ids, changes);
+
+        results.forEach((error, i) => {
+          if (error === null) {
+            result.successCount++;
+          } else {
+            result.failures.push({ id: ids[i], message: getUpdateEntryErrorMessage(error) });
           }
-          
-          throw new Error(errorMessage);
+        });
+      } catch (error) {
+        // Check if this is an authorization error (trap)
+        if (isAuthorizationError(error)) {
+          throw new Error(getUpdateEntryAuthMessage());
         }
+        // Re-throw other errors
+        throw error;
+      }
+
+      return result;
+    },
+    onSuccess: () => {
+      // Invalidate and refetch entries list
+      queryClient.invalidateQueries({ queryKey: ENTRIES_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Moves many entries to the trash in a single deleteEntries call. Rows the
+ * backend rejects are returned as failures with its message.
+ */
+export function useDeleteEntries() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids: string[]): Promise<BulkEntriesResult> => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      if (ids.length > MAX_BULK_ENTRIES) {
+        throw new Error(`At most ${MAX_BULK_ENTRIES.toLocaleString()} entries can be deleted at once`);
+      }
+
+      const result: BulkEntriesResult = { successCount: 0, failures: [] };
+
+      try {
+        const results = await actor.deleteEntries(ids);
+
+        results.forEach((error, i) => {
+          if (error === null) {
+            result.successCount++;
+          } else {
+            result.failures.push({
+              id: ids[i],
+              message: getDeleteEntryErrorMessage(error, 'Failed to delete entry. Please try again.'),
+            });
+          }
+        });
       } catch (error) {
         // Check if this is an authorization error (trap)
         if (isAuthorizationError(error)) {
@@ -190,6 +678,8 @@ export function useDeleteEntry() {
         // Re-throw other errors
         throw error;
       }
+
+      return result;
     },
     onSuccess: () => {
       // Invalidate and refetch entries list
@@ -197,3 +687,141 @@ export function useDeleteEntry() {
     },
   });
 }
+
+export interface ListTrashOptions {
+  // Admin only: list every user's trash instead of the caller's own
+  allUsers?: boolean;
+  enabled?: boolean;
+}
+
+/**
+ * Lists the caller's trashed entries, most recently deleted first.
+ */
+export function useListTrash({ allUsers = false, enabled = true }: ListTrashOptions = {}) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Entry[]>({
+    queryKey: [...TRASH_QUERY_KEY, allUsers ? 'all' : 'mine'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listTrash(allUsers);
+    },
+    enabled: enabled && !!actor && !isFetching,
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
+
+export function useRestoreEntry() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      try {
+        const result = await actor.restoreEntry(id);
+        if (result !== null) {
+          throw new Error(getDeleteEntryErrorMessage(result, 'Failed to restore entry. Please try again.'));
+        }
+      } catch (error) {
+        if (isAuthorizationError(error)) {
+          throw new Error(getRestoreEntryAuthMessage());
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      // Refreshes both the entries list and the trash
+      queryClient.invalidateQueries({ queryKey: ENTRIES_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Permanently deletes a trashed entry. Admin only; the backend returns an
+ * unauthorized error for everyone else.
+ */
+export function usePurgeEntry() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      const result = await actor.purgeEntry(id);
+      if (result !== null) {
+        throw new Error(getDeleteEntryErrorMessage(result, 'Failed to permanently delete entry. Please try again.'));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TRASH_QUERY_KEY });
+    },
+  });
+}
+
+export function useTrashRetentionDays() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<number>({
+    queryKey: TRASH_RETENTION_QUERY_KEY,
+    queryFn: async () => {
+      if (!actor) return 0;
+      return Number(await actor.getTrashRetentionDays());
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useSetTrashRetentionDays() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (days: number) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+      await actor.setTrashRetentionDays(BigInt(days));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TRASH_RETENTION_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Fetches an entry's revision log, oldest first. Disabled while `id` is null.
+ */
+export function useEntryHistory(id: string | null) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<EntryRevision[]>({
+    queryKey: [...ENTRY_HISTORY_QUERY_KEY, id ?? ''],
+    queryFn: async () => {
+      if (!actor || !id) return [];
+      return actor.getEntryHistory(id);
+    },
+    enabled: !!id && !!actor && !isFetching,
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
@@ -0,0 +1,174 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useActor } from '../../hooks/useActor';
+import type { DeleteEntryViewError, EntryColumnSetting, EntryView, SaveEntryViewError } from '../../backend';
+import { buildEntryFilter, type EntrySearchFilters } from '../entries/queries';
+import { isAuthorizationError } from '../../utils/authErrors';
+import { normalizeEntryColumns } from '../../utils/entryColumns';
+
+export const ENTRY_COLUMN_LAYOUT_QUERY_KEY = ['entryColumnLayout'];
+
+export const ENTRY_VIEWS_QUERY_KEY = ['entryViews'];
+
+export interface EntryViewFormInput {
+  // Undefined saves a new view
+  id?: bigint;
+  name: string;
+  columns: EntryColumnSetting[];
+  filters: EntrySearchFilters;
+}
+
+/**
+ * The caller's entries table column layout, with every column in it. Users
+ * who never changed theirs get the default layout.
+ */
+export function useEntryColumnLayout() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<EntryColumnSetting[], Error, EntryColumnSetting[]>({
+    queryKey: ENTRY_COLUMN_LAYOUT_QUERY_KEY,
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getEntryColumnLayout();
+    },
+    select: normalizeEntryColumns,
+    enabled: !!actor && !isFetching,
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
+
+/**
+ * Saves the caller's column layout. The table follows the new layout right
+ * away and goes back to the previous one if the save fails.
+ */
+export function useSaveEntryColumnLayout() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (columns: EntryColumnSetting[]) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      await actor.saveEntryColumnLayout(columns);
+    },
+    onMutate: async (columns) => {
+      await queryClient.cancelQueries({ queryKey: ENTRY_COLUMN_LAYOUT_QUERY_KEY });
+      const previous = queryClient.getQueryData<EntryColumnSetting[]>(ENTRY_COLUMN_LAYOUT_QUERY_KEY);
+      queryClient.setQueryData(ENTRY_COLUMN_LAYOUT_QUERY_KEY, columns);
+      return { previous };
+    },
+    onError: (_error, _columns, context) => {
+      queryClient.setQueryData(ENTRY_COLUMN_LAYOUT_QUERY_KEY, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ENTRY_COLUMN_LAYOUT_QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * Lists the caller's saved entry views by name.
+ */
+export function useListEntryViews() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<EntryView[]>({
+    queryKey: ENTRY_VIEWS_QUERY_KEY,
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listEntryViews();
+    },
+    enabled: !!actor && !isFetching,
+    retry: (failureCount, error) => {
+      // Don't retry on authorization errors
+      if (isAuthorizationError(error)) {
+        return false;
+      }
+      // Retry other errors up to 3 times
+      return failureCount < 3;
+    },
+  });
+}
+
+function getSaveEntryViewErrorMessage(result: SaveEntryViewError): string {
+  if (result.__kind__ === 'emptyField') {
+    return result.emptyField.message;
+  } else if (result.__kind__ === 'duplicateName') {
+    return result.duplicateName.message;
+  } else if (result.__kind__ === 'notFound') {
+    return result.notFound.message;
+  } else if (result.__kind__ === 'tooMany') {
+    return result.tooMany.message;
+  }
+  return 'Failed to save view. Please try again.';
+}
+
+function getDeleteEntryViewErrorMessage(result: DeleteEntryViewError): string {
+  if (result.__kind__ === 'notFound') {
+    return result.notFound.message;
+  }
+  return 'Failed to delete view. Please try again.';
+}
+
+/**
+ * Saves the given column layout, filters and sort as a named view, or
+ * replaces an existing view with them.
+ */
+export function useSaveEntryView() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, name, columns, filters }: EntryViewFormInput) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      const result = await actor.saveEntryView(id ?? null, {
+        name,
+        columns,
+        filter: buildEntryFilter(filters),
+        sort: { field: filters.sortField, descending: filters.descending },
+      });
+
+      // If backend returned an error, throw it with the English message
+      if (result !== null) {
+        throw new Error(getSaveEntryViewErrorMessage(result));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ENTRY_VIEWS_QUERY_KEY });
+    },
+  });
+}
+
+export function useDeleteEntryView() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: bigint) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+
+      const result = await actor.deleteEntryView(id);
+
+      // If backend returned an error, throw it with the English message
+      if (result !== null) {
+        throw new Error(getDeleteEntryViewErrorMessage(result));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ENTRY_VIEWS_QUERY_KEY });
+    },
+  });
+}
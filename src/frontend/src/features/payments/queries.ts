@@ -0,0 +1,124 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useActor } from '../../hooks/useActor';
+import type { PaymentError, PaymentMode } from '../../backend';
+import { ENTRIES_QUERY_KEY } from '../entries/queries';
+import { parseRupeesToPaise } from '../../utils/amount';
+import { isAuthorizationError, getSavePaymentAuthMessage } from '../../utils/authErrors';
+
+export interface PaymentFormInput {
+  date: string;
+  amountRs: string;
+  mode: PaymentMode;
+}
+
+export interface AddPaymentInput {
+  entryId: string;
+  payment: PaymentFormInput;
+}
+
+export interface UpdatePaymentInput {
+  entryId: string;
+  paymentId: bigint;
+  payment: PaymentFormInput;
+}
+
+export interface RemovePaymentInput {
+  entryId: string;
+  paymentId: bigint;
+}
+
+function getPaymentErrorMessage(result: PaymentError): string {
+  if (result.__kind__ === 'emptyField') {
+    return result.emptyField.message;
+  } else if (result.__kind__ === 'invalidAmount') {
+    return result.invalidAmount.message;
+  } else if (result.__kind__ === 'notFound') {
+    return result.notFound.message;
+  } else if (result.__kind__ === 'unauthorized') {
+    return result.unauthorized.message;
+  }
+  return 'Failed to save payment. Please try again.';
+}
+
+// Runs a payment call, turning backend errors and traps into English messages
+async function runPaymentCall(call: () => Promise<PaymentError | null>): Promise<void> {
+  try {
+    const result = await call();
+
+    // If backend returned an error, throw it with the English message
+    if (result !== null) {
+      throw new Error(getPaymentErrorMessage(result));
+    }
+  } catch (error) {
+    // Check if this is an authorization error (trap)
+    if (isAuthorizationError(error)) {
+      throw new Error(getSavePaymentAuthMessage());
+    }
+    // Re-throw other errors
+    throw error;
+  }
+}
+
+function toPaymentInput(payment: PaymentFormInput) {
+  return {
+    date: payment.date,
+    // Invalid amounts become 0, which the backend rejects
+    amountPaise: parseRupeesToPaise(payment.amountRs) ?? BigInt(0),
+    mode: payment.mode,
+  };
+}
+
+/**
+ * Records a payment against an entry. Payments change the entry's status,
+ * so the entries queries are refreshed afterwards.
+ */
+export function useAddPayment() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ entryId, payment }: AddPaymentInput) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+      await runPaymentCall(() => actor.addPayment(entryId, toPaymentInput(payment)));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ENTRIES_QUERY_KEY });
+    },
+  });
+}
+
+export function useUpdatePayment() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ entryId, paymentId, payment }: UpdatePaymentInput) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+      await runPaymentCall(() => actor.updatePayment(entryId, paymentId, toPaymentInput(payment)));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ENTRIES_QUERY_KEY });
+    },
+  });
+}
+
+export function useRemovePayment() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ entryId, paymentId }: RemovePaymentInput) => {
+      if (!actor) {
+        throw new Error('Actor not initialized');
+      }
+      await runPaymentCall(() => actor.removePayment(entryId, paymentId));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ENTRIES_QUERY_KEY });
+    },
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { useActor } from '../../hooks/useActor';
+
+export const IS_CALLER_ADMIN_QUERY_KEY = ['isCallerAdmin'];
+
+export function useIsCallerAdmin() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<boolean>({
+    queryKey: IS_CALLER_ADMIN_QUERY_KEY,
+    queryFn: async () => {
+      if (!actor) return false;
+      try {
+        return await actor.isCallerAdmin();
+      } catch {
+        // Anonymous or unregistered callers are simply not admins
+        return false;
+      }
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualRowsOptions {
+  count: number;
+  // Stable key of the row at an index; measured heights are kept by key
+  getKey: (index: number) => string;
+  // Height assumed for rows that have not been rendered yet
+  estimateRowHeight: number;
+  // Rows rendered above and below the visible ones, so fast scrolling shows no gaps
+  overscan?: number;
+}
+
+export interface VirtualRows {
+  // Ref for the scrolling element that holds the rows
+  scrollRef: (element: HTMLElement | null) => void;
+  // Ref for each rendered row; the row needs a data-row-key attribute
+  measureRow: (element: HTMLElement | null) => (() => void) | undefined;
+  // Rows to render, from startIndex up to but not including endIndex
+  startIndex: number;
+  endIndex: number;
+  // Space to leave for the rows that are not rendered
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+// Index of the row that contains the given offset
+function findRowIndex(offsets: Float64Array, count: number, position: number): number {
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= position) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Windowed rendering for long lists: only the rows in and near the visible
+ * part of the scrolling element are rendered, with padding standing in for
+ * the rest. Rows may differ in height; each is measured once rendered.
+ */
+export function useVirtualRows({ count, getKey, estimateRowHeight, overscan = 10 }: VirtualRowsOptions): VirtualRows {
+  const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const heightsRef = useRef(new Map<string, number>());
+  // Bumped when a measured height changes, so the offsets are worked out again
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const rowObserverRef = useRef<ResizeObserver | null>(null);
+
+  useEffect(() => {
+    if (!scrollElement) return;
+
+    const update = () => {
+      setScrollTop(scrollElement.scrollTop);
+      setViewportHeight(scrollElement.clientHeight);
+    };
+    update();
+    scrollElement.addEventListener('scroll', update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(scrollElement);
+    return () => {
+      scrollElement.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, [scrollElement]);
+
+  useEffect(() => () => rowObserverRef.current?.disconnect(), []);
+
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element) return undefined;
+
+    if (!rowObserverRef.current) {
+      rowObserverRef.current = new ResizeObserver((observed) => {
+        let changed = false;
+        for (const item of observed) {
+          const row = item.target as HTMLElement;
+          const key = row.dataset.rowKey;
+          if (key !== undefined && heightsRef.current.get(key) !== row.offsetHeight) {
+            heightsRef.current.set(key, row.offsetHeight);
+            changed = true;
+          }
+        }
+        if (changed) {
+          setMeasureVersion((version) => version + 1);
+        }
+      });
+    }
+
+    const observer = rowObserverRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  // offsets[i] is the top of row i; offsets[count] is the height of all rows
+  const offsets = useMemo(() => {
+    const result = new Float64Array(count + 1);
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (heightsRef.current.get(getKey(i)) ?? estimateRowHeight);
+    }
+    return result;
+    // measureVersion stands for the heights held in the ref
+  }, [count, getKey, estimateRowHeight, measureVersion]);
+
+  const startIndex = Math.max(0, findRowIndex(offsets, count, scrollTop) - overscan);
+  const endIndex = Math.min(count, findRowIndex(offsets, count, scrollTop + viewportHeight) + 1 + overscan);
+
+  return {
+    scrollRef: setScrollElement,
+    measureRow,
+    startIndex,
+    endIndex,
+    paddingTop: offsets[startIndex],
+    paddingBottom: offsets[count] - offsets[endIndex],
+  };
+}
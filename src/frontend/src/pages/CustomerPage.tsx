@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Link, useParams } from '@tanstack/react-router';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, Pencil } from 'lucide-react';
+import { CustomerDialog } from '../components/CustomerDialog';
+import { CustomerLedger } from '../components/CustomerLedger';
+import { useCustomer, useCustomerEntries, useListCustomers } from '../features/customers/queries';
+import { useIsCallerAdmin } from '../features/users/queries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { formatPaise } from '../utils/amount';
+import { isAuthorizationError, getViewCustomersAuthMessage } from '../utils/authErrors';
+
+/**
+ * Details of one customer in the directory and their ledger.
+ */
+export function CustomerPage() {
+  const { mobileNumber } = useParams({ from: '/customers/$mobileNumber' });
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [showAllUsers, setShowAllUsers] = useState(false);
+
+  const { identity } = useInternetIdentity();
+  const { data: isAdmin = false } = useIsCallerAdmin();
+  const allUsers = isAdmin && showAllUsers;
+  const { data: customer, isLoading, error } = useCustomer(mobileNumber);
+  // The customer and their totals come from the caller's own directory
+  const { data: summaries } = useListCustomers();
+  const ledgerQuery = useCustomerEntries(mobileNumber, { allUsers });
+  const summary = summaries?.find((item) => item.customer.mobileNumber === mobileNumber);
+
+  const isAuthenticated = !!identity && !identity.getPrincipal().isAnonymous();
+
+  const backLink = (
+    <Link to="/customers" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+      <ArrowLeft className="h-4 w-4 mr-1" />
+      All customers
+    </Link>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {backLink}
+        <p className="py-8 text-center text-muted-foreground">Loading customer...</p>
+      </div>
+    );
+  }
+
+  if (error || !customer) {
+    return (
+      <div className="space-y-4">
+        {backLink}
+        <p className="py-8 text-center text-muted-foreground">
+          {error
+            ? isAuthorizationError(error) ? getViewCustomersAuthMessage() : error.message || 'Unable to load customer'
+            : 'Customer not found.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {backLink}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1">
+            <CardTitle>{customer.name}</CardTitle>
+            <CardDescription>{customer.mobileNumber}</CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            {isAdmin && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="customer-all-users"
+                  checked={showAllUsers}
+                  onCheckedChange={setShowAllUsers}
+                />
+                <Label htmlFor="customer-all-users" className="text-sm font-normal">
+                  All users
+                </Label>
+              </div>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setIsEditOpen(true)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {summary && (
+            <dl className="grid grid-cols-3 gap-4 rounded-md border p-3 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Entries</dt>
+                <dd className="text-lg font-semibold">{summary.entryCount.toString()}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Balance</dt>
+                <dd className="text-lg font-semibold">{formatPaise(summary.balancePaise)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Last Transaction</dt>
+                <dd className="text-lg font-semibold">{summary.lastTransactionDate ?? '—'}</dd>
+              </div>
+            </dl>
+          )}
+          {customer.alternateNames.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">Also known as</p>
+              <div className="flex flex-wrap gap-2">
+                {customer.alternateNames.map((name) => (
+                  <Badge key={name} variant="secondary">{name}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Notes</p>
+            <p className="text-sm whitespace-pre-wrap">{customer.notes || '—'}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <CustomerLedger
+        customer={customer}
+        entries={ledgerQuery.data ?? []}
+        isLoading={ledgerQuery.isLoading}
+        error={ledgerQuery.error}
+        canAdd={isAuthenticated}
+      />
+
+      <CustomerDialog open={isEditOpen} onOpenChange={setIsEditOpen} customer={customer} />
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { Link } from '@tanstack/react-router';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { AlertCircle, Plus, Search } from 'lucide-react';
+import { CustomerDialog } from '../components/CustomerDialog';
+import { useListCustomers } from '../features/customers/queries';
+import { useIsCallerAdmin } from '../features/users/queries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { formatPaise } from '../utils/amount';
+import { normalizeMobileNumber } from '../utils/mobile';
+import { formatPrincipal } from '../utils/principal';
+import { isAuthorizationError, getViewCustomersAuthMessage } from '../utils/authErrors';
+
+export function CustomersPage() {
+  const [search, setSearch] = useState('');
+  const [showAllUsers, setShowAllUsers] = useState(false);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+
+  const { identity } = useInternetIdentity();
+  const { data: isAdmin = false } = useIsCallerAdmin();
+  const { data: customers = [], isLoading, error } = useListCustomers({ allUsers: isAdmin && showAllUsers });
+
+  const isAuthenticated = !!identity && !identity.getPrincipal().isAnonymous();
+  const self = identity?.getPrincipal();
+
+  // Matches the primary name, any alternate spelling, or the mobile number
+  const query = search.trim().toLowerCase();
+  const mobileQuery = normalizeMobileNumber(search);
+  const visibleCustomers = query
+    ? customers.filter(({ customer }) =>
+        [customer.name, ...customer.alternateNames].some((name) => name.toLowerCase().includes(query)) ||
+        (mobileQuery !== '' && customer.mobileNumber.includes(mobileQuery))
+      )
+    : customers;
+
+  const formatDate = (dateString: string | undefined) => {
+    if (!dateString) return '—';
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Customers</CardTitle>
+          <div className="flex items-center gap-4">
+            {isAdmin && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="customers-all-users"
+                  checked={showAllUsers}
+                  onCheckedChange={setShowAllUsers}
+                />
+                <Label htmlFor="customers-all-users" className="text-sm font-normal">
+                  All users
+                </Label>
+              </div>
+            )}
+            <Button size="sm" onClick={() => setIsAddOpen(true)} disabled={!isAuthenticated}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add customer
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name or mobile number..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8"
+              aria-label="Search customers"
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              Loading customers...
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="rounded-full bg-destructive/10 p-3 mb-4">
+                <AlertCircle className="h-6 w-6 text-destructive" />
+              </div>
+              <p className="text-muted-foreground">
+                {isAuthorizationError(error) ? getViewCustomersAuthMessage() : error.message || 'Unable to load customers'}
+              </p>
+            </div>
+          ) : visibleCustomers.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">
+              {query ? 'No customers match your search.' : 'No customers yet. They are added automatically when entries are saved.'}
+            </p>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Mobile Number</TableHead>
+                    <TableHead className="text-right">Entries</TableHead>
+                    <TableHead className="text-right">Balance (Rs.)</TableHead>
+                    <TableHead>Last Transaction</TableHead>
+                    {showAllUsers && <TableHead>Owner</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleCustomers.map(({ owner, customer, entryCount, balancePaise, lastTransactionDate }) => (
+                    <TableRow key={`${owner.toText()}:${customer.mobileNumber}`}>
+                      <TableCell>
+                        {/* Customer pages come from the caller's own directory */}
+                        {self && owner.toText() === self.toText() ? (
+                          <Link
+                            to="/customers/$mobileNumber"
+                            params={{ mobileNumber: customer.mobileNumber }}
+                            className="font-medium hover:text-primary hover:underline"
+                          >
+                            {customer.name}
+                          </Link>
+                        ) : (
+                          <span className="font-medium">{customer.name}</span>
+                        )}
+                        {customer.alternateNames.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Also: {customer.alternateNames.join(', ')}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>{customer.mobileNumber}</TableCell>
+                      <TableCell className="text-right">{entryCount.toString()}</TableCell>
+                      <TableCell className="text-right font-medium">{formatPaise(balancePaise)}</TableCell>
+                      <TableCell className="text-muted-foreground">{formatDate(lastTransactionDate)}</TableCell>
+                      {showAllUsers && (
+                        <TableCell className="text-muted-foreground" title={owner.toText()}>
+                          {formatPrincipal(owner, self)}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CustomerDialog open={isAddOpen} onOpenChange={setIsAddOpen} />
+    </>
+  );
+}
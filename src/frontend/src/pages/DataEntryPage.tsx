@@ -1,21 +1,52 @@
-import { useState, useRef } from 'react';
+import { useEffect, useMemo, useState, useRef } from 'react';
+import { useNavigate, useSearch } from '@tanstack/react-router';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { EntriesTable } from '../components/EntriesTable';
 import { AnalyticsSection } from '../components/AnalyticsSection';
-import { AuthStatusBar } from '../components/AuthStatusBar';
-import { useCreateEntry, useListEntries, ENTRIES_QUERY_KEY } from '../features/entries/queries';
+import { ImportPreviewDialog, type ImportRow } from '../components/ImportPreviewDialog';
+import { EntriesFilterBar } from '../components/EntriesFilterBar';
+import { BulkActionsBar } from '../components/BulkActionsBar';
+import { TrashDialog } from '../components/TrashDialog';
+import { CategoriesDialog } from '../components/CategoriesDialog';
+import { CategorySelect } from '../components/CategorySelect';
+import { TagsInput } from '../components/TagsInput';
+import { CustomerPicker } from '../components/CustomerPicker';
+import { EntryViewsMenu } from '../components/EntryViewsMenu';
+import {
+  useCreateEntry,
+  useCreateEntries,
+  useEntryAnalytics,
+  useListEntries,
+  useSearchEntries,
+  hasActiveEntrySearch,
+  type EntrySearchFilters,
+} from '../features/entries/queries';
+import { useIsCallerAdmin } from '../features/users/queries';
+import { useEntryColumnLayout, useSaveEntryColumnLayout } from '../features/entryViews/queries';
 import { validateRequired, validateMobileNumber, validateAmount } from '../utils/validation';
 import { useInternetIdentity } from '../hooks/useInternetIdentity';
-import { useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { Heart, FileDown, FileUp, FileText } from 'lucide-react';
+import { FileDown, FileUp, FileText } from 'lucide-react';
 import { getCreateEntryAuthMessage, isAuthorizationError, getViewEntriesAuthMessage } from '../utils/authErrors';
 import { exportToXLSX } from '../utils/entriesXlsxExport';
+import { filtersFromSearchParams, searchParamsFromFilters } from '../utils/entrySearchParams';
 import { exportToPDF } from '../utils/entriesPdfExport';
-import { parseXLSXFile } from '../utils/entriesXlsxImport';
+import { readImportTable, type ImportTable } from '../utils/entriesXlsxImport';
+import { EntryKind, type Customer, type Entry, type EntryColumnSetting } from '../backend';
+import { ENTRY_KINDS, ENTRY_KIND_LABELS } from '../utils/entryKind';
+import { UNCATEGORIZED_LABEL } from '../utils/categories';
+import { DEFAULT_ENTRY_COLUMN_LAYOUT, isSameEntryColumnLayout, normalizeEntryColumns } from '../utils/entryColumns';
 
 interface FormData {
   manualDate: string;
@@ -24,6 +55,13 @@ interface FormData {
   amountRs: string;
 }
 
+interface ImportPreview {
+  fileName: string;
+  table: ImportTable;
+  // Backend rejection messages from the last import, by row number in the file
+  rejections?: Record<number, string>;
+}
+
 interface FormErrors {
   manualDate?: string;
   customerName?: string;
@@ -31,6 +69,28 @@ interface FormErrors {
   amountRs?: string;
 }
 
+type ExportFormat = 'xlsx' | 'pdf';
+
+function exportEntries(format: ExportFormat, entries: Entry[]) {
+  if (entries.length === 0) {
+    toast.error('No entries to export');
+    return;
+  }
+  try {
+    if (format === 'xlsx') {
+      exportToXLSX(entries, 'data-entries.xlsx');
+      toast.success('XLSX file downloaded successfully!');
+    } else {
+      exportToPDF(entries);
+      toast.success('Print window opened! Use Print > Save as PDF');
+    }
+  } catch (error) {
+    console.error('Export error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to export file';
+    toast.error(errorMessage);
+  }
+}
+
 export function DataEntryPage() {
   const [formData, setFormData] = useState<FormData>({
     manualDate: '',
@@ -39,6 +99,11 @@ export function DataEntryPage() {
     amountRs: '',
   });
 
+  const [kind, setKind] = useState<EntryKind>(EntryKind.debit);
+  const [notes, setNotes] = useState('');
+  // Category id as a string; empty for uncategorized
+  const [categoryId, setCategoryId] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
   const [errors, setErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<Record<keyof FormData, boolean>>({
     manualDate: false,
@@ -48,15 +113,109 @@ export function DataEntryPage() {
   });
 
   const [isImporting, setIsImporting] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [showAllUsers, setShowAllUsers] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isCategoriesOpen, setIsCategoriesOpen] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ processed: number; total: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importAbortRef = useRef<AbortController | null>(null);
+
+  const search = useSearch({ from: '/' });
+  const navigate = useNavigate({ from: '/' });
+  const searchFilters = useMemo(() => filtersFromSearchParams(search), [search]);
+  // Replaces the history entry, so typing in a filter doesn't add one per keystroke
+  const setSearchFilters = (filters: EntrySearchFilters) => {
+    navigate({ search: searchParamsFromFilters(filters), replace: true });
+  };
+
+  // Column layout is saved to the backend as it changes, so it follows the user across devices
+  const { data: entryColumns = DEFAULT_ENTRY_COLUMN_LAYOUT } = useEntryColumnLayout();
+  const saveColumnsMutation = useSaveEntryColumnLayout();
+  const setEntryColumns = (columns: EntryColumnSetting[]) => {
+    saveColumnsMutation.mutate(columns, {
+      onError: (error) => toast.error(error.message || 'Failed to save column layout'),
+    });
+  };
+
+  // A saved view gets its own history entry, so Back returns to the previous listing
+  const applyEntryView = (columns: EntryColumnSetting[], filters: EntrySearchFilters) => {
+    if (!isSameEntryColumnLayout(columns, entryColumns)) {
+      setEntryColumns(normalizeEntryColumns(columns));
+    }
+    navigate({ search: searchParamsFromFilters(filters) });
+  };
 
   const { identity, login, clear } = useInternetIdentity();
-  const queryClient = useQueryClient();
   const createEntryMutation = useCreateEntry();
-  const { data: entries = [], isLoading: isLoadingEntries, error: entriesError } = useListEntries();
+  const createEntriesMutation = useCreateEntries();
+  const { data: isAdmin = false } = useIsCallerAdmin();
+  // Unfiltered listings page by cursor; any filter or custom sort goes through searchEntries
+  const isSearching = hasActiveEntrySearch(searchFilters);
+  const listEntriesQuery = useListEntries({ allUsers: isAdmin && showAllUsers });
+  const searchEntriesQuery = useSearchEntries(searchFilters, {
+    allUsers: isAdmin && showAllUsers,
+    enabled: isSearching,
+  });
+  const entries = (isSearching ? searchEntriesQuery.data?.entries : listEntriesQuery.data) ?? [];
+  const {
+    isLoading: isLoadingEntries,
+    error: entriesError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = isSearching ? searchEntriesQuery : listEntriesQuery;
+  const { data: analyticsBuckets = [] } = useEntryAnalytics({ allUsers: isAdmin && showAllUsers });
+
+  // Set while the remaining pages load for an export, which runs once they have
+  const [pendingExport, setPendingExport] = useState<ExportFormat | null>(null);
+
+  // A different listing starts without an export waiting on it
+  useEffect(() => {
+    setPendingExport(null);
+  }, [searchFilters, showAllUsers]);
+
+  // Loads one page at a time until every entry is loaded, then runs the export
+  useEffect(() => {
+    if (!pendingExport || isFetchingNextPage) return;
+    if (entriesError) {
+      toast.error('Failed to load all entries for export');
+      setPendingExport(null);
+    } else if (hasNextPage) {
+      fetchNextPage();
+    } else {
+      exportEntries(pendingExport, entries);
+      setPendingExport(null);
+    }
+  }, [pendingExport, isFetchingNextPage, entriesError, hasNextPage, fetchNextPage, entries]);
 
   const isAuthenticated = !!identity && !identity.getPrincipal().isAnonymous();
 
+  // Ids of the rows ticked for bulk actions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  // Set while the remaining pages load for "select all matching"
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+  const selectedEntries = entries.filter((entry) => selectedIds.has(entry.id));
+
+  // A different listing starts with nothing selected, so no action reaches hidden rows
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setIsSelectingAll(false);
+  }, [searchFilters, showAllUsers]);
+
+  // Loads one page at a time until every match is loaded, then selects them all
+  useEffect(() => {
+    if (!isSelectingAll || isFetchingNextPage) return;
+    if (entriesError) {
+      setIsSelectingAll(false);
+    } else if (hasNextPage) {
+      fetchNextPage();
+    } else {
+      setSelectedIds(new Set(entries.map((entry) => entry.id)));
+      setIsSelectingAll(false);
+    }
+  }, [isSelectingAll, isFetchingNextPage, entriesError, hasNextPage, fetchNextPage, entries]);
+
   const validateField = (name: keyof FormData, value: string): string | undefined => {
     switch (name) {
       case 'manualDate':
@@ -109,6 +268,12 @@ export function DataEntryPage() {
     return !Object.values(newErrors).some((error) => error !== undefined);
   };
 
+  // Fills the name and mobile number from a directory customer
+  const handleCustomerSelect = (customer: Customer) => {
+    setFormData((prev) => ({ ...prev, customerName: customer.name, mobileNumber: customer.mobileNumber }));
+    setErrors((prev) => ({ ...prev, customerName: undefined, mobileNumber: undefined }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -124,7 +289,13 @@ export function DataEntryPage() {
     }
 
     try {
-      await createEntryMutation.mutateAsync(formData);
+      await createEntryMutation.mutateAsync({
+        ...formData,
+        kind,
+        notes,
+        categoryId: categoryId ? BigInt(categoryId) : undefined,
+        tags,
+      });
       
       // Reset form
       setFormData({
@@ -133,6 +304,10 @@ export function DataEntryPage() {
         mobileNumber: '',
         amountRs: '',
       });
+      setKind(EntryKind.debit);
+      setNotes('');
+      setCategoryId('');
+      setTags([]);
       setErrors({});
       setTouched({
         manualDate: false,
@@ -163,33 +338,12 @@ export function DataEntryPage() {
   };
 
   // Export handlers
-  const handleExportXLSX = () => {
-    try {
-      if (entries.length === 0) {
-        toast.error('No entries to export');
-        return;
-      }
-      exportToXLSX(entries, 'data-entries.csv');
-      toast.success('CSV file downloaded successfully! (Excel compatible)');
-    } catch (error) {
-      console.error('Export error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to export file';
-      toast.error(errorMessage);
-    }
-  };
-
-  const handleExportPDF = () => {
-    try {
-      if (entries.length === 0) {
-        toast.error('No entries to export');
-        return;
-      }
-      exportToPDF(entries);
-      toast.success('Print window opened! Use Print > Save as PDF');
-    } catch (error) {
-      console.error('Export PDF error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to export PDF';
-      toast.error(errorMessage);
+  // Exports cover every entry, so any pages not loaded yet are fetched first
+  const handleExport = (format: ExportFormat) => {
+    if (hasNextPage) {
+      setPendingExport(format);
+    } else {
+      exportEntries(format, entries);
     }
   };
 
@@ -226,58 +380,85 @@ export function DataEntryPage() {
     setIsImporting(true);
 
     try {
-      // Parse file
-      const { validRows, errors: parseErrors } = await parseXLSXFile(file);
-
-      if (validRows.length === 0) {
-        if (parseErrors.length > 0) {
-          toast.error('No valid rows found in the file. Please check the file format and data.');
-        } else {
-          toast.error('The file is empty or contains no data rows.');
-        }
-        setIsImporting(false);
-        return;
-      }
+      // Read the file and open the preview; nothing is saved yet
+      const table = await readImportTable(file);
+      setImportPreview({ fileName: file.name, table });
+    } catch (error) {
+      console.error('Import error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to import file';
+      toast.error(errorMessage);
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-      // Import valid rows
-      let successCount = 0;
-      let failCount = 0;
-
-      for (const row of validRows) {
-        try {
-          await createEntryMutation.mutateAsync(row);
-          successCount++;
-        } catch (error) {
-          console.error('Failed to import row:', error);
-          failCount++;
-        }
-      }
+  const handleImportConfirm = async (rows: ImportRow[]) => {
+    if (!isAuthenticated) {
+      toast.error(getCreateEntryAuthMessage());
+      return;
+    }
 
-      // Refresh entries list
-      queryClient.invalidateQueries({ queryKey: ENTRIES_QUERY_KEY });
+    const abortController = new AbortController();
+    importAbortRef.current = abortController;
+    setIsImporting(true);
+    setImportProgress({ processed: 0, total: rows.length });
+
+    try {
+      // Rows are sent in chunks; the entries list is refreshed once at the end
+      const { successCount, failures, cancelled } = await createEntriesMutation.mutateAsync({
+        rows: rows.map((row) => row.data),
+        signal: abortController.signal,
+        onProgress: (processed, total) => setImportProgress({ processed, total }),
+      });
+      const failCount = failures.length;
 
       // Show summary
-      if (successCount > 0 && failCount === 0) {
+      if (cancelled) {
+        toast.warning(`Import cancelled. ${successCount} ${successCount === 1 ? 'entry was' : 'entries were'} saved before stopping.`);
+      } else if (successCount > 0 && failCount === 0) {
         toast.success(`Successfully imported ${successCount} ${successCount === 1 ? 'entry' : 'entries'}!`);
       } else if (successCount > 0 && failCount > 0) {
         toast.warning(`Imported ${successCount} ${successCount === 1 ? 'entry' : 'entries'}. ${failCount} ${failCount === 1 ? 'row' : 'rows'} failed.`);
       } else {
-        toast.error(`Failed to import entries. ${parseErrors.length > 0 ? 'Please check the file format.' : ''}`);
+        toast.error('Failed to import entries. Please try again.');
       }
 
-      // Log parse errors for debugging
-      if (parseErrors.length > 0) {
-        console.warn('Import validation errors:', parseErrors);
+      if (failCount > 0 && importPreview) {
+        // Keep the preview open with just the rejected rows, so they can be fixed and sent again
+        const rejections: Record<number, string> = {};
+        failures.forEach(({ index, message }) => {
+          rejections[rows[index].rowNumber] = message;
+        });
+        setImportPreview({
+          ...importPreview,
+          table: {
+            ...importPreview.table,
+            rows: importPreview.table.rows.filter((row) => rejections[row.rowNumber] !== undefined),
+          },
+          rejections,
+        });
+      } else {
+        setImportPreview(null);
       }
     } catch (error) {
       console.error('Import error:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to import file';
       toast.error(errorMessage);
     } finally {
+      importAbortRef.current = null;
       setIsImporting(false);
+      setImportProgress(null);
     }
   };
 
+  const handleImportStop = () => {
+    importAbortRef.current?.abort();
+  };
+
+  const handleImportCancel = () => {
+    setImportPreview(null);
+  };
+
   // Determine if entries error is an auth error
   const isEntriesAuthError = entriesError && isAuthorizationError(entriesError);
   const entriesErrorToShow = isEntriesAuthError 
@@ -285,221 +466,309 @@ export function DataEntryPage() {
     : entriesError || null;
 
   return (
-    <div className="min-h-screen bg-background">
-      {/* Header */}
-      <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-6">
-          <h1 className="text-3xl font-bold tracking-tight">Data Entry System</h1>
-          <p className="text-muted-foreground mt-1">
-            Manage customer transactions and records
-          </p>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="container mx-auto px-4 py-8">
-        {/* Auth Status Bar */}
-        <div className="mb-8">
-          <AuthStatusBar />
-        </div>
-
-        <div className="grid gap-8 lg:grid-cols-2">
-          {/* Form Section */}
-          <div>
-            <Card className="shadow-soft">
-              <CardHeader>
-                <CardTitle>New Entry</CardTitle>
-                <CardDescription>
-                  Fill in the details below to create a new entry
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <form onSubmit={handleSubmit} className="space-y-6">
-                  {/* Manual Date */}
-                  <div className="space-y-2">
-                    <Label htmlFor="manualDate">
-                      Manual Date <span className="text-destructive">*</span>
-                    </Label>
-                    <Input
-                      id="manualDate"
-                      name="manualDate"
-                      type="date"
-                      value={formData.manualDate}
-                      onChange={handleChange}
-                      onBlur={handleBlur}
-                      disabled={!isAuthenticated}
-                      className={errors.manualDate && touched.manualDate ? 'border-destructive' : ''}
-                    />
-                    {errors.manualDate && touched.manualDate && (
-                      <p className="form-error">{errors.manualDate}</p>
-                    )}
-                  </div>
+    <>
+      <div className="grid gap-8 lg:grid-cols-2">
+        {/* Form Section */}
+        <div>
+          <Card className="shadow-soft">
+            <CardHeader>
+              <CardTitle>New Entry</CardTitle>
+              <CardDescription>
+                Fill in the details below to create a new entry
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Manual Date */}
+                <div className="space-y-2">
+                  <Label htmlFor="manualDate">
+                    Manual Date <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="manualDate"
+                    name="manualDate"
+                    type="date"
+                    value={formData.manualDate}
+                    onChange={handleChange}
+                    onBlur={handleBlur}
+                    disabled={!isAuthenticated}
+                    className={errors.manualDate && touched.manualDate ? 'border-destructive' : ''}
+                  />
+                  {errors.manualDate && touched.manualDate && (
+                    <p className="form-error">{errors.manualDate}</p>
+                  )}
+                </div>
 
-                  {/* Customer Name */}
-                  <div className="space-y-2">
+                {/* Customer Name */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
                     <Label htmlFor="customerName">
                       Customer Name <span className="text-destructive">*</span>
                     </Label>
-                    <Input
-                      id="customerName"
-                      name="customerName"
-                      type="text"
-                      placeholder="Enter customer name"
-                      value={formData.customerName}
-                      onChange={handleChange}
-                      onBlur={handleBlur}
-                      disabled={!isAuthenticated}
-                      className={errors.customerName && touched.customerName ? 'border-destructive' : ''}
-                    />
-                    {errors.customerName && touched.customerName && (
-                      <p className="form-error">{errors.customerName}</p>
-                    )}
-                  </div>
-
-                  {/* Mobile Number */}
-                  <div className="space-y-2">
-                    <Label htmlFor="mobileNumber">
-                      Mobile Number <span className="text-destructive">*</span>
-                    </Label>
-                    <Input
-                      id="mobileNumber"
-                      name="mobileNumber"
-                      type="tel"
-                      placeholder="Enter mobile number"
-                      value={formData.mobileNumber}
-                      onChange={handleChange}
-                      onBlur={handleBlur}
-                      disabled={!isAuthenticated}
-                      className={errors.mobileNumber && touched.mobileNumber ? 'border-destructive' : ''}
-                    />
-                    {errors.mobileNumber && touched.mobileNumber && (
-                      <p className="form-error">{errors.mobileNumber}</p>
-                    )}
+                    <CustomerPicker onSelect={handleCustomerSelect} disabled={!isAuthenticated} />
                   </div>
+                  <Input
+                    id="customerName"
+                    name="customerName"
+                    type="text"
+                    placeholder="Enter customer name"
+                    value={formData.customerName}
+                    onChange={handleChange}
+                    onBlur={handleBlur}
+                    disabled={!isAuthenticated}
+                    className={errors.customerName && touched.customerName ? 'border-destructive' : ''}
+                  />
+                  {errors.customerName && touched.customerName && (
+                    <p className="form-error">{errors.customerName}</p>
+                  )}
+                </div>
 
-                  {/* Amount */}
-                  <div className="space-y-2">
-                    <Label htmlFor="amountRs">
-                      Amount (Rs.) <span className="text-destructive">*</span>
-                    </Label>
-                    <Input
-                      id="amountRs"
-                      name="amountRs"
-                      type="number"
-                      step="0.01"
-                      placeholder="Enter amount"
-                      value={formData.amountRs}
-                      onChange={handleChange}
-                      onBlur={handleBlur}
-                      disabled={!isAuthenticated}
-                      className={errors.amountRs && touched.amountRs ? 'border-destructive' : ''}
-                    />
-                    {errors.amountRs && touched.amountRs && (
-                      <p className="form-error">{errors.amountRs}</p>
-                    )}
-                  </div>
+                {/* Mobile Number */}
+                <div className="space-y-2">
+                  <Label htmlFor="mobileNumber">
+                    Mobile Number <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="mobileNumber"
+                    name="mobileNumber"
+                    type="tel"
+                    placeholder="Enter mobile number"
+                    value={formData.mobileNumber}
+                    onChange={handleChange}
+                    onBlur={handleBlur}
+                    disabled={!isAuthenticated}
+                    className={errors.mobileNumber && touched.mobileNumber ? 'border-destructive' : ''}
+                  />
+                  {errors.mobileNumber && touched.mobileNumber && (
+                    <p className="form-error">{errors.mobileNumber}</p>
+                  )}
+                </div>
 
-                  {/* Submit Button */}
-                  <Button
-                    type="submit"
-                    className="w-full"
-                    disabled={!isAuthenticated || createEntryMutation.isPending}
-                  >
-                    {createEntryMutation.isPending 
-                      ? 'Saving...' 
-                      : !isAuthenticated 
-                      ? 'Sign in to Submit' 
-                      : 'Submit Entry'}
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Entries List Section */}
-          <div className="lg:col-span-1 space-y-4">
-            {/* Import/Export Actions */}
-            <Card className="shadow-soft">
-              <CardHeader>
-                <CardTitle className="text-lg">Import / Export</CardTitle>
-                <CardDescription>
-                  Download or upload entry data
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="flex flex-wrap gap-3">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleExportXLSX}
-                    disabled={entries.length === 0}
-                    className="flex items-center gap-2"
-                  >
-                    <FileDown className="h-4 w-4" />
-                    Export XLSX
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleExportPDF}
-                    disabled={entries.length === 0}
-                    className="flex items-center gap-2"
+                {/* Type */}
+                <div className="space-y-2">
+                  <Label htmlFor="kind">Type</Label>
+                  <Select
+                    value={kind}
+                    onValueChange={(value) => setKind(value as EntryKind)}
+                    disabled={!isAuthenticated}
                   >
-                    <FileText className="h-4 w-4" />
-                    Export PDF
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleImportClick}
-                    disabled={!isAuthenticated || isImporting}
-                    className="flex items-center gap-2"
-                  >
-                    <FileUp className="h-4 w-4" />
-                    {isImporting ? 'Importing...' : 'Import XLSX'}
-                  </Button>
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept=".xlsx,.csv"
-                    onChange={handleFileChange}
-                    className="hidden"
+                    <SelectTrigger id="kind">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ENTRY_KINDS.map((item) => (
+                        <SelectItem key={item} value={item}>
+                          {ENTRY_KIND_LABELS[item]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Debit for money given or owed, credit for money received.
+                  </p>
+                </div>
+
+                {/* Amount */}
+                <div className="space-y-2">
+                  <Label htmlFor="amountRs">
+                    Amount (Rs.) <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="amountRs"
+                    name="amountRs"
+                    type="number"
+                    step="0.01"
+                    placeholder="Enter amount"
+                    value={formData.amountRs}
+                    onChange={handleChange}
+                    onBlur={handleBlur}
+                    disabled={!isAuthenticated}
+                    className={errors.amountRs && touched.amountRs ? 'border-destructive' : ''}
+                  />
+                  {errors.amountRs && touched.amountRs && (
+                    <p className="form-error">{errors.amountRs}</p>
+                  )}
+                </div>
+
+                {/* Category */}
+                <div className="space-y-2">
+                  <Label htmlFor="categoryId">Category</Label>
+                  <CategorySelect
+                    id="categoryId"
+                    value={categoryId}
+                    onChange={setCategoryId}
+                    noneLabel={UNCATEGORIZED_LABEL}
+                    disabled={!isAuthenticated}
                   />
                 </div>
-              </CardContent>
-            </Card>
-
-            <EntriesTable 
-              entries={entries} 
-              isLoading={isLoadingEntries} 
-              error={entriesErrorToShow}
-              onSignIn={isEntriesAuthError ? handleSignIn : undefined}
-            />
-          </div>
-        </div>
 
-        {/* Analytics Section */}
-        <div className="mt-8">
-          <AnalyticsSection entries={entries} />
+                {/* Tags */}
+                <div className="space-y-2">
+                  <Label htmlFor="tags">Tags</Label>
+                  <TagsInput id="tags" value={tags} onChange={setTags} disabled={!isAuthenticated} />
+                </div>
+
+                {/* Notes */}
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    name="notes"
+                    rows={3}
+                    placeholder="Optional, e.g. paid half in cash, rest next week"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    disabled={!isAuthenticated}
+                  />
+                </div>
+
+                {/* Submit Button */}
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={!isAuthenticated || createEntryMutation.isPending}
+                >
+                  {createEntryMutation.isPending 
+                    ? 'Saving...' 
+                    : !isAuthenticated 
+                    ? 'Sign in to Submit' 
+                    : 'Submit Entry'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
         </div>
-      </main>
-
-      {/* Footer */}
-      <footer className="border-t mt-16">
-        <div className="container mx-auto px-4 py-6">
-          <p className="text-center text-sm text-muted-foreground">
-            © 2026. Built with <Heart className="inline h-4 w-4 text-primary fill-primary" /> using{' '}
-            <a
-              href="https://caffeine.ai"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="font-medium text-foreground hover:text-primary transition-colors"
-            >
-              caffeine.ai
-            </a>
-          </p>
+
+        {/* Entries List Section */}
+        <div className="lg:col-span-1 space-y-4">
+          {/* Import/Export Actions */}
+          <Card className="shadow-soft">
+            <CardHeader>
+              <CardTitle className="text-lg">Import / Export</CardTitle>
+              <CardDescription>
+                Download or upload entry data
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleExport('xlsx')}
+                  disabled={entries.length === 0 || pendingExport !== null}
+                  className="flex items-center gap-2"
+                >
+                  <FileDown className="h-4 w-4" />
+                  {pendingExport === 'xlsx' ? 'Loading entries...' : 'Export XLSX'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleExport('pdf')}
+                  disabled={entries.length === 0 || pendingExport !== null}
+                  className="flex items-center gap-2"
+                >
+                  <FileText className="h-4 w-4" />
+                  {pendingExport === 'pdf' ? 'Loading entries...' : 'Export PDF'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleImportClick}
+                  disabled={!isAuthenticated || isImporting}
+                  className="flex items-center gap-2"
+                >
+                  <FileUp className="h-4 w-4" />
+                  {isImporting ? 'Importing...' : 'Import XLSX'}
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".xlsx,.csv"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <EntriesFilterBar
+            filters={searchFilters}
+            onChange={setSearchFilters}
+            resultCount={searchEntriesQuery.data?.totalCount}
+            disabled={!isAuthenticated}
+          />
+
+          <BulkActionsBar
+            selectedEntries={selectedEntries}
+            onSelectedIdsChange={setSelectedIds}
+            onSelectAllMatching={
+              hasNextPage && selectedEntries.length === entries.length ? () => setIsSelectingAll(true) : undefined
+            }
+            matchingCount={isSearching ? searchEntriesQuery.data?.totalCount : undefined}
+            isSelectingAll={isSelectingAll}
+          />
+
+          <EntriesTable 
+            entries={entries} 
+            isLoading={isLoadingEntries} 
+            error={entriesErrorToShow}
+            onSignIn={isEntriesAuthError ? handleSignIn : undefined}
+            hasMore={hasNextPage}
+            isLoadingMore={isFetchingNextPage}
+            onLoadMore={() => fetchNextPage()}
+            canShowAllUsers={isAdmin}
+            showAllUsers={isAdmin && showAllUsers}
+            onShowAllUsersChange={setShowAllUsers}
+            isFiltered={isSearching}
+            sort={{ field: searchFilters.sortField, descending: searchFilters.descending }}
+            onSortChange={(sort) =>
+              setSearchFilters({ ...searchFilters, sortField: sort.field, descending: sort.descending })
+            }
+            selectedIds={isAuthenticated ? selectedIds : undefined}
+            onSelectedIdsChange={setSelectedIds}
+            onOpenTrash={isAuthenticated ? () => setIsTrashOpen(true) : undefined}
+            onOpenCategories={isAdmin ? () => setIsCategoriesOpen(true) : undefined}
+            columns={entryColumns}
+            onColumnsChange={isAuthenticated ? setEntryColumns : undefined}
+            headerActions={
+              isAuthenticated && (
+                <EntryViewsMenu columns={entryColumns} filters={searchFilters} onApply={applyEntryView} />
+              )
+            }
+          />
         </div>
-      </footer>
-    </div>
+      </div>
+
+      {/* Analytics Section */}
+      <div className="mt-8">
+        <AnalyticsSection buckets={analyticsBuckets} />
+      </div>
+
+      {/* Import Preview Dialog */}
+      {importPreview && (
+        <ImportPreviewDialog
+          fileName={importPreview.fileName}
+          table={importPreview.table}
+          rejections={importPreview.rejections}
+          isImporting={isImporting}
+          progress={importProgress}
+          onConfirm={handleImportConfirm}
+          onCancel={handleImportCancel}
+          onStop={handleImportStop}
+        />
+      )}
+
+      {/* Trash Dialog */}
+      <TrashDialog
+        open={isTrashOpen}
+        onOpenChange={setIsTrashOpen}
+        isAdmin={isAdmin}
+        allUsers={isAdmin && showAllUsers}
+      />
+
+      {/* Categories Dialog (admin) */}
+      <CategoriesDialog open={isCategoriesOpen} onOpenChange={setIsCategoriesOpen} />
+    </>
   );
 }
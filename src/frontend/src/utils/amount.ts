@@ -0,0 +1,70 @@
+/**
+ * Amounts are stored on the backend as whole paise (1 rupee = 100 paise) so
+ * values such as Rs. 499.75 are kept exactly. Rupee amounts typed by users
+ * are parsed as text rather than floats to avoid rounding.
+ */
+
+const PAISE_PER_RUPEE = BigInt(100);
+
+// Digits with an optional fraction of up to two places, e.g. "499", "499.7", ".75"
+const RUPEE_AMOUNT_PATTERN = /^(\d*)(?:\.(\d{0,2}))?$/;
+
+/**
+ * Converts a rupee amount such as "1,499.75" to paise. Returns null if the
+ * value is not a non-negative number with at most two decimal places.
+ */
+export function parseRupeesToPaise(value: string): bigint | null {
+  const match = value.trim().replace(/,/g, '').match(RUPEE_AMOUNT_PATTERN);
+  if (!match || (match[1] === '' && !match[2])) {
+    return null;
+  }
+  const rupees = BigInt(match[1] || '0');
+  const paise = BigInt((match[2] ?? '').padEnd(2, '0'));
+  return rupees * PAISE_PER_RUPEE + paise;
+}
+
+/**
+ * Splits a leading minus sign off a rupee amount, e.g. "-250" -> { negative: true, rupees: "250" }.
+ * Files written by Export XLSX carry credits as negative amounts.
+ */
+export function splitRupeeSign(value: string): { negative: boolean; rupees: string } {
+  const trimmed = value.trim();
+  return trimmed.startsWith('-')
+    ? { negative: true, rupees: trimmed.slice(1) }
+    : { negative: false, rupees: trimmed };
+}
+
+/**
+ * Formats paise as a plain decimal rupee amount, e.g. 49975n -> "499.75".
+ * Used for form inputs and exports.
+ */
+export function formatPaiseAsDecimal(paise: bigint): string {
+  const sign = paise < BigInt(0) ? '-' : '';
+  const abs = paise < BigInt(0) ? -paise : paise;
+  const fraction = (abs % PAISE_PER_RUPEE).toString().padStart(2, '0');
+  return `${sign}${abs / PAISE_PER_RUPEE}.${fraction}`;
+}
+
+/**
+ * Formats paise for display with Indian digit grouping, e.g. 12345675n -> "₹1,23,456.75".
+ */
+export function formatPaise(paise: bigint): string {
+  const sign = paise < BigInt(0) ? '-' : '';
+  const abs = paise < BigInt(0) ? -paise : paise;
+  const fraction = (abs % PAISE_PER_RUPEE).toString().padStart(2, '0');
+  return `${sign}₹${(abs / PAISE_PER_RUPEE).toLocaleString('en-IN')}.${fraction}`;
+}
+
+/**
+ * Converts paise to a rupee number for charts and spreadsheet cells.
+ */
+export function paiseToRupees(paise: bigint | number): number {
+  return Number(paise) / 100;
+}
+
+/**
+ * Formats a rupee number (e.g. a chart total) with two decimal places.
+ */
+export function formatRupees(rupees: number): string {
+  return `₹${rupees.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
@@ -1,45 +1,74 @@
-import type { Entry } from '../backend';
-import { parseManualDate } from './date';
+import type { Category, EntryAnalyticsBucket } from '../backend';
+import { paiseToRupees } from './amount';
+import { UNCATEGORIZED_LABEL } from './categories';
 
-export interface MonthlyData {
+// Rupee totals for a period; net is debits minus credits
+export interface PeriodAmounts {
+  debitAmount: number;
+  creditAmount: number;
+  netAmount: number;
+  count: number;
+}
+
+export interface MonthlyData extends PeriodAmounts {
   month: string;
   monthIndex: number;
-  totalAmount: number;
-  count: number;
 }
 
-export interface YearlyData {
+export interface YearlyData extends PeriodAmounts {
   year: number;
-  totalAmount: number;
+}
+
+export interface CategoryData extends PeriodAmounts {
+  category: string;
+}
+
+// Running totals are kept in paise until the end
+interface PeriodTotals {
+  debitPaise: number;
+  creditPaise: number;
   count: number;
 }
 
+function emptyTotals(): PeriodTotals {
+  return { debitPaise: 0, creditPaise: 0, count: 0 };
+}
+
+function addBucket(totals: PeriodTotals, bucket: EntryAnalyticsBucket) {
+  totals.debitPaise += Number(bucket.debitPaise);
+  totals.creditPaise += Number(bucket.creditPaise);
+  totals.count += Number(bucket.count);
+}
+
+function toAmounts(totals: PeriodTotals): PeriodAmounts {
+  return {
+    debitAmount: paiseToRupees(totals.debitPaise),
+    creditAmount: paiseToRupees(totals.creditPaise),
+    netAmount: paiseToRupees(totals.debitPaise - totals.creditPaise),
+    count: totals.count,
+  };
+}
+
 /**
- * Aggregates entries by month for a given year.
+ * Monthly totals for a given year from the backend's per-month buckets, with
+ * debits, credits and net separately.
  * Returns data for all 12 months (Jan-Dec), with 0 values for months with no entries.
  */
-export function aggregateByMonth(entries: Entry[], year: number): MonthlyData[] {
+export function aggregateByMonth(buckets: EntryAnalyticsBucket[], year: number): MonthlyData[] {
   const monthNames = [
     'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
     'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
   ];
 
   // Initialize all months with 0 values
-  const monthlyMap = new Map<number, { totalAmount: number; count: number }>();
+  const monthlyMap = new Map<number, PeriodTotals>();
   for (let i = 0; i < 12; i++) {
-    monthlyMap.set(i, { totalAmount: 0, count: 0 });
+    monthlyMap.set(i, emptyTotals());
   }
 
-  // Aggregate entries
-  entries.forEach((entry) => {
-    const date = parseManualDate(entry.manualDate);
-    if (!date) return;
-
-    if (date.getFullYear() === year) {
-      const month = date.getMonth();
-      const existing = monthlyMap.get(month)!;
-      existing.totalAmount += Number(entry.amountRs);
-      existing.count += 1;
+  buckets.forEach((bucket) => {
+    if (Number(bucket.year) === year) {
+      addBucket(monthlyMap.get(Number(bucket.month) - 1)!, bucket);
     }
   });
 
@@ -47,26 +76,22 @@ export function aggregateByMonth(entries: Entry[], year: number): MonthlyData[]
   return Array.from(monthlyMap.entries()).map(([monthIndex, data]) => ({
     month: monthNames[monthIndex],
     monthIndex,
-    totalAmount: data.totalAmount,
-    count: data.count,
+    ...toAmounts(data),
   }));
 }
 
 /**
- * Aggregates entries by year.
- * Returns data for all years present in the entries.
+ * Yearly totals from the backend's per-month buckets, with debits, credits and
+ * net separately.
+ * Returns data for all years that have entries.
  */
-export function aggregateByYear(entries: Entry[]): YearlyData[] {
-  const yearlyMap = new Map<number, { totalAmount: number; count: number }>();
+export function aggregateByYear(buckets: EntryAnalyticsBucket[]): YearlyData[] {
+  const yearlyMap = new Map<number, PeriodTotals>();
 
-  entries.forEach((entry) => {
-    const date = parseManualDate(entry.manualDate);
-    if (!date) return;
-
-    const year = date.getFullYear();
-    const existing = yearlyMap.get(year) || { totalAmount: 0, count: 0 };
-    existing.totalAmount += Number(entry.amountRs);
-    existing.count += 1;
+  buckets.forEach((bucket) => {
+    const year = Number(bucket.year);
+    const existing = yearlyMap.get(year) || emptyTotals();
+    addBucket(existing, bucket);
     yearlyMap.set(year, existing);
   });
 
@@ -74,23 +99,47 @@ export function aggregateByYear(entries: Entry[]): YearlyData[] {
   return Array.from(yearlyMap.entries())
     .map(([year, data]) => ({
       year,
-      totalAmount: data.totalAmount,
-      count: data.count,
+      ...toAmounts(data),
     }))
     .sort((a, b) => a.year - b.year);
 }
 
 /**
- * Gets all unique years from entries.
+ * Totals by category from the backend's per-month buckets, with debits, credits
+ * and net separately.
+ * Returns categories that have entries in list order, then uncategorized entries.
  */
-export function getAvailableYears(entries: Entry[]): number[] {
+export function aggregateByCategory(buckets: EntryAnalyticsBucket[], categories: Category[]): CategoryData[] {
+  // Keyed by category id; uncategorized entries, and those whose category is unknown, under ''
+  const categoryMap = new Map<string, PeriodTotals>();
+  const knownIds = new Set(categories.map((category) => category.id.toString()));
+
+  buckets.forEach((bucket) => {
+    const id = bucket.categoryId?.toString() ?? '';
+    const key = knownIds.has(id) ? id : '';
+    const existing = categoryMap.get(key) || emptyTotals();
+    addBucket(existing, bucket);
+    categoryMap.set(key, existing);
+  });
+
+  const rows: Array<{ category: string; totals: PeriodTotals | undefined }> = [
+    ...categories.map((category) => ({ category: category.name, totals: categoryMap.get(category.id.toString()) })),
+    { category: UNCATEGORIZED_LABEL, totals: categoryMap.get('') },
+  ];
+
+  return rows
+    .filter((row): row is { category: string; totals: PeriodTotals } => row.totals !== undefined)
+    .map(({ category, totals }) => ({ category, ...toAmounts(totals) }));
+}
+
+/**
+ * Gets all years that have entries.
+ */
+export function getAvailableYears(buckets: EntryAnalyticsBucket[]): number[] {
   const years = new Set<number>();
 
-  entries.forEach((entry) => {
-    const date = parseManualDate(entry.manualDate);
-    if (date) {
-      years.add(date.getFullYear());
-    }
+  buckets.forEach((bucket) => {
+    years.add(Number(bucket.year));
   });
 
   return Array.from(years).sort((a, b) => b - a); // Descending order
@@ -0,0 +1,55 @@
+import type { ValidationResult } from './validation';
+
+// Largest file that can be attached, to keep uploads of phone photos reasonable
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Photo formats phones and scanners produce, plus PDF; the backend allows the same types
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/heic',
+  'image/heif',
+  'application/pdf',
+];
+
+// For the file input's accept attribute
+export const ATTACHMENT_ACCEPT = ATTACHMENT_CONTENT_TYPES.join(',');
+
+export function isImageAttachment(contentType: string): boolean {
+  return contentType.startsWith('image/');
+}
+
+/**
+ * Checks that a file is a photo or PDF within the size limit.
+ */
+export function validateAttachmentFile(file: File): ValidationResult {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type.toLowerCase())) {
+    return { isValid: false, error: `${file.name}: only photos and PDF files can be attached` };
+  }
+  if (file.size === 0) {
+    return { isValid: false, error: `${file.name}: the file is empty` };
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return {
+      isValid: false,
+      error: `${file.name}: files can be at most ${formatFileSize(MAX_ATTACHMENT_BYTES)}`,
+    };
+  }
+  return { isValid: true };
+}
+
+/**
+ * File size for display, e.g. "840 KB" or "2.4 MB".
+ */
+export function formatFileSize(bytes: number | bigint): string {
+  const size = Number(bytes);
+  if (size < 1024) {
+    return `${size} B`;
+  }
+  if (size < 1024 * 1024) {
+    return `${Math.round(size / 1024)} KB`;
+  }
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
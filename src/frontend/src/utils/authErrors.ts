@@ -53,3 +53,43 @@ export function getUpdateEntryAuthMessage(): string {
 export function getDeleteEntryAuthMessage(): string {
   return 'Please sign in with Internet Identity to delete entries.';
 }
+
+/**
+ * Returns a user-friendly message for restoring entries when not authenticated
+ * @returns English message for restoring entries
+ */
+export function getRestoreEntryAuthMessage(): string {
+  return 'Please sign in with Internet Identity to restore entries.';
+}
+
+/**
+ * Returns a user-friendly message for viewing customers when not authenticated
+ * @returns English message for viewing customers
+ */
+export function getViewCustomersAuthMessage(): string {
+  return 'Please sign in with Internet Identity to view customers.';
+}
+
+/**
+ * Returns a user-friendly message for saving customers when not authenticated
+ * @returns English message for saving customers
+ */
+export function getSaveCustomerAuthMessage(): string {
+  return 'Please sign in with Internet Identity to save customers.';
+}
+
+/**
+ * Returns a user-friendly message for recording payments when not authenticated
+ * @returns English message for recording payments
+ */
+export function getSavePaymentAuthMessage(): string {
+  return 'Please sign in with Internet Identity to record payments.';
+}
+
+/**
+ * Returns a user-friendly message for attaching files when not authenticated
+ * @returns English message for attaching files
+ */
+export function getSaveAttachmentAuthMessage(): string {
+  return 'Please sign in with Internet Identity to attach files.';
+}
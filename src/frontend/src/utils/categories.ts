@@ -0,0 +1,21 @@
+import type { Category } from '../backend';
+
+export const UNCATEGORIZED_LABEL = 'Uncategorized';
+
+/**
+ * Name of the category with the given id. Ids of categories that are not in
+ * the list (e.g. not loaded yet) show as uncategorized.
+ */
+export function getCategoryName(categories: Category[], categoryId: bigint | undefined): string {
+  if (categoryId === undefined) {
+    return UNCATEGORIZED_LABEL;
+  }
+  return categories.find((category) => category.id === categoryId)?.name ?? UNCATEGORIZED_LABEL;
+}
+
+/**
+ * Tags as one comma-separated string, for plain-text views.
+ */
+export function formatTags(tags: string[]): string {
+  return tags.join(', ');
+}
@@ -41,21 +41,76 @@ export function parseManualDate(dateString: string): Date | null {
 
 /**
  * Calculates the whole-number day difference between today and a manual date.
- * Returns null if the date cannot be parsed.
+ * If an end date is given (e.g. the date an entry was settled), counts up to
+ * that date instead of today.
+ * Returns null if a date cannot be parsed.
  * Returns negative values for future dates.
  */
-export function calculateDaysSince(manualDateString: string): number | null {
+export function calculateDaysSince(manualDateString: string, endDateString?: string): number | null {
   const manualDate = parseManualDate(manualDateString);
   if (!manualDate) {
     return null;
   }
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const endDate = endDateString ? parseManualDate(endDateString) : new Date();
+  if (!endDate) {
+    return null;
+  }
+  endDate.setHours(0, 0, 0, 0);
   manualDate.setHours(0, 0, 0, 0);
 
-  const diffMs = today.getTime() - manualDate.getTime();
+  const diffMs = endDate.getTime() - manualDate.getTime();
   const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
 
   return diffDays;
 }
+
+// Excel stores dates as days since 1899-12-30 (accounting for the 1900 leap year bug)
+const EXCEL_EPOCH_UTC_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Converts a local Date to an Excel serial date number.
+ * The fractional part encodes the time of day.
+ */
+export function toExcelSerialDate(date: Date): number {
+  const localAsUtc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  );
+  return (localAsUtc - EXCEL_EPOCH_UTC_MS) / MS_PER_DAY;
+}
+
+/**
+ * Converts an Excel serial date number to a local Date.
+ * Returns null for values outside the range Excel can represent.
+ */
+export function fromExcelSerialDate(serial: number): Date | null {
+  if (!Number.isFinite(serial) || serial < 1 || serial >= 2958466) {
+    return null;
+  }
+
+  const utc = new Date(EXCEL_EPOCH_UTC_MS + Math.round(serial * MS_PER_DAY));
+  return new Date(
+    utc.getUTCFullYear(),
+    utc.getUTCMonth(),
+    utc.getUTCDate(),
+    utc.getUTCHours(),
+    utc.getUTCMinutes(),
+    utc.getUTCSeconds()
+  );
+}
+
+/**
+ * Formats a Date as a YYYY-MM-DD manual date string in local time.
+ */
+export function formatManualDate(date: Date): string {
+  const year = date.getFullYear().toString().padStart(4, '0');
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
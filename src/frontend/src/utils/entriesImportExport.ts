@@ -1,14 +1,18 @@
 import type { Entry } from '../backend';
 import { calculateDaysSince } from './date';
+import { formatPaiseAsDecimal } from './amount';
+import { getSignedAmountPaise } from './entryKind';
 
 // Column definitions for export
 export const EXPORT_COLUMNS = [
+  'Receipt No.',
   'Manual Date',
   'DAYS',
   'Customer Name',
   'Mobile Number',
   'Amount (Rs.)',
   'Created At',
+  'Notes',
 ];
 
 // Helper to format a timestamp to readable date string
@@ -35,15 +39,18 @@ function escapeCSVField(field: string | number): string {
 
 // Helper to build export row from entry
 export function buildExportRow(entry: Entry): (string | number)[] {
-  const days = calculateDaysSince(entry.manualDate);
+  const days = calculateDaysSince(entry.manualDate, entry.settledDate);
   
   return [
+    entry.receiptNumber,
     entry.manualDate,
     days !== null ? days : '',
     entry.customerName,
     entry.mobileNumber,
-    Number(entry.amountRs),
+    // Credits are negative, so the column sums to the net balance
+    formatPaiseAsDecimal(getSignedAmountPaise(entry)),
     formatTimestamp(entry.createdAt),
+    entry.notes,
   ];
 }
 
@@ -1,6 +1,15 @@
 import type { Entry } from '../backend';
 import { buildExportRow, EXPORT_COLUMNS } from './entriesImportExport';
 
+// Cell values such as names and notes are free text, so they are escaped before going into the page
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 /**
  * Exports entries to a printable HTML page that can be saved as PDF using browser's print dialog.
  * Opens a new window with formatted table that user can print to PDF.
@@ -16,7 +25,7 @@ export function exportToPDF(entries: Entry[], filename: string = 'entries.pdf'):
     
     // Create HTML table
     const tableRows = rows.map(row => 
-      `<tr>${row.map(cell => `<td>${String(cell)}</td>`).join('')}</tr>`
+      `<tr>${row.map(cell => `<td>${escapeHTML(String(cell))}</td>`).join('')}</tr>`
     ).join('');
     
     const html = `
@@ -43,6 +52,7 @@ export function exportToPDF(entries: Entry[], filename: string = 'entries.pdf'):
               border: 1px solid #ddd;
               padding: 8px;
               text-align: left;
+              white-space: pre-wrap;
             }
             th {
               background-color: #10b981;
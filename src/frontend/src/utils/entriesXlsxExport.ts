@@ -1,9 +1,228 @@
 import type { Entry } from '../backend';
 import { buildExportRow, EXPORT_COLUMNS } from './entriesImportExport';
+import { parseManualDate, toExcelSerialDate } from './date';
+import { formatPaiseAsDecimal } from './amount';
+import { getSignedAmountPaise } from './entryKind';
+import { createZip } from './zip';
+
+type CellKind = 'text' | 'integer' | 'currency' | 'date' | 'dateTime';
+
+// How each export column is written to the worksheet
+const COLUMN_KINDS: Record<string, CellKind> = {
+  'Receipt No.': 'text',
+  'Manual Date': 'date',
+  'DAYS': 'integer',
+  'Customer Name': 'text',
+  'Mobile Number': 'text',
+  'Amount (Rs.)': 'currency',
+  'Created At': 'dateTime',
+  'Notes': 'text',
+};
+
+// Indices into the cellXfs list in styles.xml
+const STYLE = {
+  default: 0,
+  header: 1,
+  date: 2,
+  dateTime: 3,
+  currency: 4,
+  text: 5,
+  totalLabel: 6,
+  totalCurrency: 7,
+};
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Helper to escape text for XML content and attributes
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Helper to convert a zero-based column index to a column letter (0 -> A, 26 -> AA)
+function columnLetter(index: number): string {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
+
+function inlineStringCell(ref: string, value: string, style: number): string {
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(value)}</t></is></c>`;
+}
+
+function numberCell(ref: string, value: number, style: number): string {
+  return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+}
+
+// Builds a single typed cell for an export value
+function buildCell(ref: string, kind: CellKind, value: string | number, entry: Entry): string | null {
+  switch (kind) {
+    case 'date': {
+      const date = parseManualDate(String(value));
+      return date
+        ? numberCell(ref, toExcelSerialDate(date), STYLE.date)
+        : inlineStringCell(ref, String(value), STYLE.text);
+    }
+    case 'dateTime': {
+      // Use the raw timestamp rather than the formatted export string
+      const date = new Date(Number(entry.createdAt / BigInt(1_000_000)));
+      return numberCell(ref, toExcelSerialDate(date), STYLE.dateTime);
+    }
+    case 'integer':
+      return value === '' ? null : numberCell(ref, Number(value), STYLE.default);
+    case 'currency':
+      return numberCell(ref, Number(value), STYLE.currency);
+    default:
+      return inlineStringCell(ref, String(value), STYLE.text);
+  }
+}
+
+// Calculates column widths (in characters) from the header and data lengths
+function calculateColumnWidths(rows: (string | number)[][]): number[] {
+  return EXPORT_COLUMNS.map((header, i) => {
+    const kind = COLUMN_KINDS[header];
+    const minWidth = kind === 'dateTime' ? 18 : kind === 'date' ? 12 : 0;
+    const maxDataWidth = Math.max(0, ...rows.map((row) => String(row[i]).length));
+    return Math.min(Math.max(header.length, maxDataWidth, minWidth) + 2, 60);
+  });
+}
+
+function buildSheetXML(entries: Entry[]): string {
+  const rows = entries.map(buildExportRow);
+  const widths = calculateColumnWidths(rows);
+  const amountColumn = EXPORT_COLUMNS.indexOf('Amount (Rs.)');
+
+  const headerCells = EXPORT_COLUMNS.map((header, i) =>
+    inlineStringCell(`${columnLetter(i)}1`, header, STYLE.header)
+  ).join('');
+
+  const dataRows = rows.map((row, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const cells = row
+      .map((value, i) => buildCell(`${columnLetter(i)}${rowNumber}`, COLUMN_KINDS[EXPORT_COLUMNS[i]], value, entries[rowIndex]))
+      .filter((cell): cell is string => cell !== null)
+      .join('');
+    return `<row r="${rowNumber}">${cells}</row>`;
+  });
+
+  // Totals row with a live SUM formula and a cached value for viewers that don't recalculate
+  const totalRowNumber = rows.length + 2;
+  // Summed in paise so the cached total has no floating-point drift
+  const totalPaise = entries.reduce((sum, entry) => sum + getSignedAmountPaise(entry), BigInt(0));
+  const amountLetter = columnLetter(amountColumn);
+  const totalRow =
+    `<row r="${totalRowNumber}">` +
+    inlineStringCell(`A${totalRowNumber}`, 'Total', STYLE.totalLabel) +
+    `<c r="${amountLetter}${totalRowNumber}" s="${STYLE.totalCurrency}">` +
+    `<f>SUM(${amountLetter}2:${amountLetter}${totalRowNumber - 1})</f><v>${formatPaiseAsDecimal(totalPaise)}</v></c>` +
+    `</row>`;
+
+  const cols = widths
+    .map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`)
+    .join('');
+
+  const lastRef = `${columnLetter(EXPORT_COLUMNS.length - 1)}${totalRowNumber}`;
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<dimension ref="A1:${lastRef}"/>` +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>' +
+    '</sheetView></sheetViews>' +
+    '<sheetFormatPr defaultRowHeight="15"/>' +
+    `<cols>${cols}</cols>` +
+    `<sheetData><row r="1">${headerCells}</row>${dataRows.join('')}${totalRow}</sheetData>` +
+    '</worksheet>'
+  );
+}
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="2">' +
+  '<numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>' +
+  '<numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/>' +
+  '</numFmts>' +
+  '<fonts count="2">' +
+  '<font><sz val="11"/><name val="Calibri"/><family val="2"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/><family val="2"/></font>' +
+  '</fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="8">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="49" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="4" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const WORKBOOK_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+  '<sheets><sheet name="Entries" sheetId="1" r:id="rId1"/></sheets>' +
+  '</workbook>';
+
+const WORKBOOK_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
 
 /**
- * Exports entries to a CSV file with .xlsx extension for Excel compatibility.
- * Uses CSV format which Excel can open directly.
+ * Builds an Office Open XML workbook (.xlsx) for the given entries.
+ * Amounts are numeric cells, dates are real date cells, mobile numbers stay text,
+ * the header row is frozen and a totals row sums the Amount column.
+ */
+export function buildXLSXWorkbook(entries: Entry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES_XML) },
+    { name: '_rels/.rels', data: encoder.encode(ROOT_RELS_XML) },
+    { name: 'xl/workbook.xml', data: encoder.encode(WORKBOOK_XML) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(WORKBOOK_RELS_XML) },
+    { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+    { name: 'xl/worksheets/sheet1.xml', data: encoder.encode(buildSheetXML(entries)) },
+  ]);
+}
+
+/**
+ * Exports entries to an .xlsx workbook and triggers a download.
  */
 export function exportToXLSX(entries: Entry[], filename: string = 'entries.xlsx'): void {
   if (entries.length === 0) {
@@ -11,34 +230,15 @@ export function exportToXLSX(entries: Entry[], filename: string = 'entries.xlsx'
   }
 
   try {
-    // Build CSV content (Excel can open CSV files)
-    const rows = entries.map(buildExportRow);
-    
-    // Escape CSV field
-    const escapeCSVField = (field: string | number): string => {
-      const str = String(field);
-      if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-        return `"${str.replace(/"/g, '""')}"`;
-      }
-      return str;
-    };
-    
-    const csvRows = [
-      EXPORT_COLUMNS.map(escapeCSVField).join(','),
-      ...rows.map(row => row.map(escapeCSVField).join(','))
-    ];
-    const csvContent = csvRows.join('\n');
-    
-    // Add BOM for Excel UTF-8 compatibility
-    const BOM = '\uFEFF';
-    const blob = new Blob([BOM + csvContent], { type: 'text/csv;charset=utf-8;' });
-    
+    const workbook = buildXLSXWorkbook(entries);
+    const blob = new Blob([workbook], { type: XLSX_MIME_TYPE });
+
     // Create download link
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
-    
+
     link.setAttribute('href', url);
-    link.setAttribute('download', filename.replace('.xlsx', '.csv'));
+    link.setAttribute('download', filename);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
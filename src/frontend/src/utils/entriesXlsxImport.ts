@@ -1,17 +1,39 @@
-import { validateRequired, validateMobileNumber, validateAmount } from './validation';
+import { validateRequired, validateMobileNumber, validateSignedAmount } from './validation';
+import { fromExcelSerialDate, formatManualDate } from './date';
+import { isZipArchive } from './zip';
+import { readXLSXWorkbook, type WorksheetData } from './xlsxReader';
 
 export interface ParsedRow {
   manualDate: string;
   customerName: string;
   mobileNumber: string;
   amountRs: string;
+  notes: string;
 }
 
-export interface ImportResult {
-  validRows: ParsedRow[];
-  errors: Array<{ row: number; message: string }>;
+export type ImportField = keyof ParsedRow;
+
+// Target field for each column of the file, or null to ignore the column
+export type ColumnMapping = Array<ImportField | null>;
+
+export interface ImportTableRow {
+  rowNumber: number;
+  values: string[];
 }
 
+export interface ImportTable {
+  headers: string[];
+  rows: ImportTableRow[];
+}
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  manualDate: 'Manual Date',
+  customerName: 'Customer Name',
+  mobileNumber: 'Mobile Number',
+  amountRs: 'Amount (Rs.)',
+  notes: 'Notes',
+};
+
 // Map of supported column headers (case-insensitive)
 const COLUMN_MAPPINGS: Record<string, keyof ParsedRow> = {
   'manual date': 'manualDate',
@@ -28,6 +50,10 @@ const COLUMN_MAPPINGS: Record<string, keyof ParsedRow> = {
   'amount': 'amountRs',
   'amountrs': 'amountRs',
   'amount rs': 'amountRs',
+  'notes': 'notes',
+  'note': 'notes',
+  'remarks': 'notes',
+  'remark': 'notes',
 };
 
 function normalizeColumnName(header: string): keyof ParsedRow | null {
@@ -35,35 +61,64 @@ function normalizeColumnName(header: string): keyof ParsedRow | null {
   return COLUMN_MAPPINGS[normalized] || null;
 }
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
+/**
+ * Splits CSV text into records. Quoted fields may hold commas, doubled quotes
+ * and line breaks (as in multi-line notes) and keep their spacing; unquoted
+ * fields are trimmed. Blank lines come back as empty records.
+ */
+function parseCSVRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
   let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    const nextChar = line[i + 1];
-    
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        current += '"';
+
+  const endField = () => {
+    record.push(quoted ? field : field.trim());
+    field = '';
+    quoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    records.push(record.length === 1 && record[0] === '' ? [] : record);
+    record = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
         i++;
       } else {
-        inQuotes = !inQuotes;
+        inQuotes = false;
       }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
+    } else if (char === '"' && !quoted && field.trim() === '') {
+      field = '';
+      quoted = true;
+      inQuotes = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else if (!quoted || char.trim() !== '') {
+      // Spaces between a closing quote and the next comma are dropped
+      field += char;
     }
   }
-  
-  result.push(current.trim());
-  return result;
+
+  if (field !== '' || quoted || record.length > 0) {
+    endRecord();
+  }
+  return records;
 }
 
-function validateRow(row: ParsedRow, rowIndex: number): string | null {
+export function validateRow(row: ParsedRow, rowIndex: number): string | null {
   const dateValidation = validateRequired(row.manualDate, 'Manual Date');
   if (dateValidation.error) {
     return `Row ${rowIndex}: ${dateValidation.error}`;
@@ -79,7 +134,8 @@ function validateRow(row: ParsedRow, rowIndex: number): string | null {
     return `Row ${rowIndex}: ${mobileValidation.error}`;
   }
 
-  const amountValidation = validateAmount(row.amountRs);
+  // Negative amounts are imported as credits
+  const amountValidation = validateSignedAmount(row.amountRs);
   if (amountValidation.error) {
     return `Row ${rowIndex}: ${amountValidation.error}`;
   }
@@ -87,97 +143,117 @@ function validateRow(row: ParsedRow, rowIndex: number): string | null {
   return null;
 }
 
+// Date columns stored without a date format arrive as raw Excel serial numbers
+function normalizeManualDate(value: string): string {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const date = fromExcelSerialDate(Number(value));
+    if (date) {
+      return formatManualDate(date);
+    }
+  }
+  return value;
+}
+
+function countRecognizedColumns(row: string[]): number {
+  return row.filter((header) => normalizeColumnName(header) !== null).length;
+}
+
+function findHeaderRowIndex(rows: string[][]): number {
+  return rows.findIndex((row) => row.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Picks the worksheet whose header row matches the most known columns.
+ * Ties are resolved in workbook order, so the first matching sheet wins.
+ * Falls back to the first sheet with any data when no headers are recognized.
+ */
+function selectWorksheet(sheets: WorksheetData[]): WorksheetData | null {
+  let best: WorksheetData | null = null;
+  let bestScore = -1;
+
+  for (const sheet of sheets) {
+    const headerIndex = findHeaderRowIndex(sheet.rows);
+    if (headerIndex < 0) continue;
+
+    const score = countRecognizedColumns(sheet.rows[headerIndex]);
+    if (score > bestScore) {
+      best = sheet;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Guesses the entry field for each header using the known column names.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping = headers.map(normalizeColumnName);
+  // Only the first column for each field is used
+  return mapping.map((field, i) => (field && mapping.indexOf(field) === i ? field : null));
+}
+
+/**
+ * Builds an entry row from raw cell values using the given column mapping.
+ */
+export function mapImportRow(values: string[], mapping: ColumnMapping): ParsedRow {
+  const parsedRow: Partial<ParsedRow> = {};
+
+  for (let j = 0; j < Math.min(values.length, mapping.length); j++) {
+    const fieldName = mapping[j];
+    if (fieldName) {
+      parsedRow[fieldName] = (values[j] ?? '').trim();
+    }
+  }
+
+  return {
+    manualDate: normalizeManualDate(parsedRow.manualDate || ''),
+    customerName: parsedRow.customerName || '',
+    mobileNumber: parsedRow.mobileNumber || '',
+    amountRs: parsedRow.amountRs || '',
+    notes: parsedRow.notes || '',
+  };
+}
+
 /**
- * Parses an XLSX/CSV file and returns valid rows and errors.
- * Accepts both .xlsx and .csv files, treating them as CSV format.
+ * Converts raw worksheet or CSV rows into a header list and data rows.
+ * Blank rows and the totals row written by Export XLSX are dropped.
  */
-export async function parseXLSXFile(file: File): Promise<ImportResult> {
+function buildImportTable(rows: string[][]): ImportTable {
+  const headerIndex = findHeaderRowIndex(rows);
+  if (headerIndex < 0) {
+    throw new Error('File is empty');
+  }
+
+  const headers = rows[headerIndex];
+  const dataRows: ImportTableRow[] = [];
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const values = rows[i] ?? [];
+    if (!values.some((value) => value.trim() !== '')) continue;
+    if (values[0]?.trim().toLowerCase() === 'total') continue;
+
+    dataRows.push({ rowNumber: i + 1, values });
+  }
+
+  if (dataRows.length === 0) {
+    throw new Error('No data rows found in the file');
+  }
+
+  return { headers, rows: dataRows };
+}
+
+function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
     reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        if (!text) {
-          reject(new Error('Failed to read file'));
-          return;
-        }
-
-        // Split into lines
-        const lines = text.split(/\r?\n/).filter(line => line.trim());
-        
-        if (lines.length === 0) {
-          reject(new Error('File is empty'));
-          return;
-        }
-
-        // Parse header
-        const headerLine = lines[0];
-        const headers = parseCSVLine(headerLine);
-        
-        // Map headers to field names
-        const fieldMapping: Array<keyof ParsedRow | null> = headers.map(normalizeColumnName);
-        
-        // Check if we have at least some valid columns
-        if (!fieldMapping.some(f => f !== null)) {
-          reject(new Error('No recognized columns found in the file'));
-          return;
-        }
-
-        // Parse data rows
-        const validRows: ParsedRow[] = [];
-        const errors: Array<{ row: number; message: string }> = [];
-
-        for (let i = 1; i < lines.length; i++) {
-          const rowNumber = i + 1;
-          const line = lines[i].trim();
-          
-          if (!line) continue;
-          
-          try {
-            const values = parseCSVLine(line);
-            const parsedRow: Partial<ParsedRow> = {};
-            let hasAnyField = false;
-            
-            for (let j = 0; j < Math.min(values.length, fieldMapping.length); j++) {
-              const fieldName = fieldMapping[j];
-              if (fieldName) {
-                parsedRow[fieldName] = values[j].trim();
-                hasAnyField = true;
-              }
-            }
-            
-            if (!hasAnyField) continue;
-            
-            const completeRow: ParsedRow = {
-              manualDate: parsedRow.manualDate || '',
-              customerName: parsedRow.customerName || '',
-              mobileNumber: parsedRow.mobileNumber || '',
-              amountRs: parsedRow.amountRs || '',
-            };
-            
-            const validationError = validateRow(completeRow, rowNumber);
-            if (validationError) {
-              errors.push({ row: rowNumber, message: validationError });
-            } else {
-              validRows.push(completeRow);
-            }
-          } catch (error) {
-            errors.push({
-              row: rowNumber,
-              message: `Row ${rowNumber}: Failed to parse row - ${error instanceof Error ? error.message : 'Unknown error'}`,
-            });
-          }
-        }
-
-        if (validRows.length === 0 && errors.length === 0) {
-          reject(new Error('No data rows found in the file'));
-          return;
-        }
-
-        resolve({ validRows, errors });
-      } catch (error) {
-        reject(new Error(`Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      const buffer = e.target?.result;
+      if (buffer instanceof ArrayBuffer) {
+        resolve(buffer);
+      } else {
+        reject(new Error('Failed to read file'));
       }
     };
 
@@ -185,6 +261,46 @@ export async function parseXLSXFile(file: File): Promise<ImportResult> {
       reject(new Error('Failed to read file'));
     };
 
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   });
 }
+
+async function readRows(bytes: Uint8Array<ArrayBuffer>): Promise<string[][]> {
+  if (isZipArchive(bytes)) {
+    const sheets = await readXLSXWorkbook(bytes);
+    if (sheets.length === 0) {
+      throw new Error('The workbook contains no worksheets');
+    }
+    const sheet = selectWorksheet(sheets);
+    if (!sheet) {
+      throw new Error('File is empty');
+    }
+    return sheet.rows;
+  }
+
+  // Plain text files are treated as CSV
+  const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '');
+  return parseCSVRecords(text);
+}
+
+/**
+ * Reads an XLSX/CSV file into its header row and raw data rows without
+ * validating them, so columns can be re-mapped before import.
+ * Real .xlsx workbooks are unzipped and read sheet by sheet; any other
+ * file is treated as CSV text.
+ */
+export async function readImportTable(file: File): Promise<ImportTable> {
+  const bytes = new Uint8Array(await readFileAsArrayBuffer(file));
+  if (bytes.length === 0) {
+    throw new Error('File is empty');
+  }
+
+  let rows: string[][];
+  try {
+    rows = await readRows(bytes);
+  } catch (error) {
+    throw new Error(`Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return buildImportTable(rows);
+}
@@ -0,0 +1,56 @@
+import { EntryColumn, type EntryColumnSetting } from '../backend';
+
+export const ENTRY_COLUMN_LABELS: Record<EntryColumn, string> = {
+  [EntryColumn.manualDate]: 'Manual Date',
+  [EntryColumn.days]: 'DAYS',
+  [EntryColumn.customerName]: 'Customer Name',
+  [EntryColumn.mobileNumber]: 'Mobile Number',
+  [EntryColumn.amount]: 'Amount (Rs.)',
+  [EntryColumn.createdAt]: 'Created At',
+};
+
+// Columns users can hide and reorder, in their default order
+export const ENTRY_COLUMNS: EntryColumn[] = [
+  EntryColumn.manualDate,
+  EntryColumn.days,
+  EntryColumn.customerName,
+  EntryColumn.mobileNumber,
+  EntryColumn.amount,
+  EntryColumn.createdAt,
+];
+
+export const DEFAULT_ENTRY_COLUMN_LAYOUT: EntryColumnSetting[] = ENTRY_COLUMNS.map((column) => ({
+  column,
+  visible: true,
+}));
+
+/**
+ * Layout with every column exactly once, e.g. for one saved before a column
+ * was added: repeats are dropped and missing columns are shown at the end.
+ * An empty layout, as for users who never changed theirs, is the default.
+ */
+export function normalizeEntryColumns(columns: EntryColumnSetting[]): EntryColumnSetting[] {
+  const seen = new Set<EntryColumn>();
+  const result: EntryColumnSetting[] = [];
+  for (const setting of columns) {
+    if (ENTRY_COLUMNS.includes(setting.column) && !seen.has(setting.column)) {
+      seen.add(setting.column);
+      result.push({ column: setting.column, visible: setting.visible });
+    }
+  }
+  for (const column of ENTRY_COLUMNS) {
+    if (!seen.has(column)) {
+      result.push({ column, visible: true });
+    }
+  }
+  return result;
+}
+
+export function isSameEntryColumnLayout(columns1: EntryColumnSetting[], columns2: EntryColumnSetting[]): boolean {
+  const normalized1 = normalizeEntryColumns(columns1);
+  const normalized2 = normalizeEntryColumns(columns2);
+  return normalized1.every(
+    (setting, index) =>
+      setting.column === normalized2[index].column && setting.visible === normalized2[index].visible
+  );
+}
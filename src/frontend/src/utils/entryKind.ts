@@ -0,0 +1,17 @@
+import { EntryKind, type Entry } from '../backend';
+
+export const ENTRY_KIND_LABELS: Record<EntryKind, string> = {
+  [EntryKind.debit]: 'Debit',
+  [EntryKind.credit]: 'Credit',
+};
+
+// In the order they are offered in selects
+export const ENTRY_KINDS: EntryKind[] = [EntryKind.debit, EntryKind.credit];
+
+/**
+ * An entry's amount in paise with credits negative, so that summing entries
+ * gives the net balance: debits are money given or owed, credits money received.
+ */
+export function getSignedAmountPaise(entry: Pick<Entry, 'kind' | 'amountPaise'>): bigint {
+  return entry.kind === EntryKind.credit ? -entry.amountPaise : entry.amountPaise;
+}
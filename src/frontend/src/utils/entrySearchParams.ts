@@ -0,0 +1,121 @@
+import { EntrySortField, type PaymentStatus } from '../backend';
+import { EMPTY_ENTRY_SEARCH_FILTERS, type EntrySearchFilters } from '../features/entries/queries';
+import { PAYMENT_STATUSES } from './paymentStatus';
+
+/**
+ * Search params of the entries page. Only filters that differ from the
+ * defaults are kept, so a bookmarked view has a short URL and an unfiltered
+ * listing has none.
+ */
+export interface EntriesSearchParams {
+  q?: string;
+  customerName?: string;
+  mobilePrefix?: string;
+  fromDate?: string;
+  toDate?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  status?: PaymentStatus;
+  notes?: string;
+  categoryId?: number;
+  tag?: string;
+  minDays?: number;
+  maxDays?: number;
+  sort?: EntrySortField;
+  // Omitted for descending, the default
+  order?: 'asc';
+}
+
+const SORT_FIELDS = Object.values(EntrySortField);
+
+// The router parses values that look like numbers, so text fields may arrive as numbers
+function readText(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() !== '' ? value : undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Route validator for the entries page: keeps the known params with usable
+ * values and drops everything else, e.g. from a hand-edited URL.
+ */
+export function validateEntriesSearch(search: Record<string, unknown>): EntriesSearchParams {
+  const status = PAYMENT_STATUSES.find((candidate) => candidate === search.status);
+  const sort = SORT_FIELDS.find((candidate) => candidate === search.sort);
+
+  return {
+    q: readText(search.q),
+    customerName: readText(search.customerName),
+    mobilePrefix: readText(search.mobilePrefix),
+    fromDate: readText(search.fromDate),
+    toDate: readText(search.toDate),
+    minAmount: readNumber(search.minAmount),
+    maxAmount: readNumber(search.maxAmount),
+    status,
+    notes: readText(search.notes),
+    categoryId: readNumber(search.categoryId),
+    tag: readText(search.tag),
+    minDays: readNumber(search.minDays),
+    maxDays: readNumber(search.maxDays),
+    sort,
+    order: search.order === 'asc' ? 'asc' : undefined,
+  };
+}
+
+export function filtersFromSearchParams(params: EntriesSearchParams): EntrySearchFilters {
+  const text = (value: string | number | undefined) => (value === undefined ? '' : String(value));
+
+  return {
+    searchText: text(params.q),
+    customerName: text(params.customerName),
+    mobilePrefix: text(params.mobilePrefix),
+    fromDate: text(params.fromDate),
+    toDate: text(params.toDate),
+    minAmount: text(params.minAmount),
+    maxAmount: text(params.maxAmount),
+    status: params.status ?? '',
+    notes: text(params.notes),
+    categoryId: text(params.categoryId),
+    tag: text(params.tag),
+    minDays: text(params.minDays),
+    maxDays: text(params.maxDays),
+    sortField: params.sort ?? EMPTY_ENTRY_SEARCH_FILTERS.sortField,
+    descending: params.order !== 'asc',
+  };
+}
+
+export function searchParamsFromFilters(filters: EntrySearchFilters): EntriesSearchParams {
+  const text = (value: string) => (value.trim() === '' ? undefined : value);
+
+  return {
+    q: text(filters.searchText),
+    customerName: text(filters.customerName),
+    mobilePrefix: text(filters.mobilePrefix),
+    fromDate: text(filters.fromDate),
+    toDate: text(filters.toDate),
+    minAmount: readNumber(filters.minAmount),
+    maxAmount: readNumber(filters.maxAmount),
+    status: filters.status || undefined,
+    notes: text(filters.notes),
+    categoryId: readNumber(filters.categoryId),
+    tag: text(filters.tag),
+    minDays: readNumber(filters.minDays),
+    maxDays: readNumber(filters.maxDays),
+    sort: filters.sortField === EMPTY_ENTRY_SEARCH_FILTERS.sortField ? undefined : filters.sortField,
+    order: filters.descending ? undefined : 'asc',
+  };
+}
+
+/**
+ * True if both filter sets give the same search params, e.g. "100" and
+ * "100.00" as the minimum amount.
+ */
+export function isSameEntrySearch(filters1: EntrySearchFilters, filters2: EntrySearchFilters): boolean {
+  return JSON.stringify(searchParamsFromFilters(filters1)) === JSON.stringify(searchParamsFromFilters(filters2));
+}
@@ -0,0 +1,14 @@
+/**
+ * Normalizes a mobile number the same way the backend keys customers:
+ * digits only, without a +91 country code or a leading trunk 0.
+ */
+export function normalizeMobileNumber(mobileNumber: string): string {
+  const digits = mobileNumber.replace(/\D/g, '');
+  if (digits.length === 12 && digits.startsWith('91')) {
+    return digits.slice(2);
+  }
+  if (digits.length === 11 && digits.startsWith('0')) {
+    return digits.slice(1);
+  }
+  return digits;
+}
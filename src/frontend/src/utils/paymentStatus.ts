@@ -0,0 +1,24 @@
+import { PaymentStatus } from '../backend';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  [PaymentStatus.pending]: 'Pending',
+  [PaymentStatus.partiallyPaid]: 'Partially paid',
+  [PaymentStatus.paid]: 'Paid',
+  [PaymentStatus.writtenOff]: 'Written off',
+};
+
+// In the order they are offered in selects
+export const PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.pending,
+  PaymentStatus.partiallyPaid,
+  PaymentStatus.paid,
+  PaymentStatus.writtenOff,
+];
+
+/**
+ * Paid and written-off entries are settled: nothing more is owed on them and
+ * they carry a settled date.
+ */
+export function isSettledStatus(status: PaymentStatus): boolean {
+  return status === PaymentStatus.paid || status === PaymentStatus.writtenOff;
+}
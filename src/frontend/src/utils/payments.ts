@@ -0,0 +1,39 @@
+import { EntryKind, PaymentMode, type Entry } from '../backend';
+import { isSettledStatus } from './paymentStatus';
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  [PaymentMode.cash]: 'Cash',
+  [PaymentMode.upi]: 'UPI',
+  [PaymentMode.cheque]: 'Cheque',
+  [PaymentMode.bankTransfer]: 'Bank transfer',
+  [PaymentMode.other]: 'Other',
+};
+
+// In the order they are offered in selects
+export const PAYMENT_MODES: PaymentMode[] = [
+  PaymentMode.cash,
+  PaymentMode.upi,
+  PaymentMode.cheque,
+  PaymentMode.bankTransfer,
+  PaymentMode.other,
+];
+
+/**
+ * Total of the payments recorded against an entry, in paise.
+ */
+export function getPaidPaise(entry: Entry): bigint {
+  return entry.payments.reduce((total, payment) => total + payment.amountPaise, BigInt(0));
+}
+
+/**
+ * What is still owed on an entry, in paise. Settled entries owe nothing, even
+ * when they were marked paid or written off without payments being recorded;
+ * neither do credits, which record money already received.
+ */
+export function getOutstandingPaise(entry: Entry): bigint {
+  if (entry.kind === EntryKind.credit || isSettledStatus(entry.status)) {
+    return BigInt(0);
+  }
+  const outstanding = entry.amountPaise - getPaidPaise(entry);
+  return outstanding > BigInt(0) ? outstanding : BigInt(0);
+}
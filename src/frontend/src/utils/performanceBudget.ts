@@ -0,0 +1,43 @@
+// Budget for the entries table's first render, met with up to BUDGET_ROW_COUNT entries
+export const PERFORMANCE_BUDGET_MS = 200;
+export const BUDGET_ROW_COUNT = 50_000;
+
+export interface BudgetMeasurement {
+  name: string;
+  durationMs: number;
+  rowCount: number;
+  budgetMs: number;
+  overBudget: boolean;
+}
+
+/**
+ * Compares a duration with the budget. Runs over BUDGET_ROW_COUNT rows are
+ * outside what the budget covers and never count as over budget.
+ */
+export function checkAgainstBudget(name: string, durationMs: number, rowCount: number): BudgetMeasurement {
+  return {
+    name,
+    durationMs,
+    rowCount,
+    budgetMs: PERFORMANCE_BUDGET_MS,
+    overBudget: rowCount <= BUDGET_ROW_COUNT && durationMs > PERFORMANCE_BUDGET_MS,
+  };
+}
+
+export function formatBudgetMeasurement({ name, durationMs, rowCount, budgetMs, overBudget }: BudgetMeasurement): string {
+  return `${name}: ${Math.round(durationMs)} ms for ${rowCount.toLocaleString()} rows (budget ${budgetMs} ms${overBudget ? ', over budget' : ''})`;
+}
+
+/**
+ * Times `name` from `startTime` to now against the budget. The result is
+ * recorded as a User Timing measure, so it shows in the browser's
+ * performance tools, and overruns are reported in development.
+ */
+export function measureAgainstBudget(name: string, startTime: number, rowCount: number): BudgetMeasurement {
+  const measurement = checkAgainstBudget(name, performance.now() - startTime, rowCount);
+  performance.measure(name, { start: startTime, duration: measurement.durationMs, detail: measurement });
+  if (measurement.overBudget && import.meta.env.DEV) {
+    console.warn(formatBudgetMeasurement(measurement));
+  }
+  return measurement;
+}
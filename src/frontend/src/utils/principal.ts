@@ -0,0 +1,15 @@
+import type { Principal } from '@icp-sdk/core/principal';
+
+/**
+ * Formats a principal for display: "You" for the signed-in principal, otherwise
+ * its first and last groups, e.g. "abcde-...-xyz".
+ */
+export function formatPrincipal(principal: Principal | undefined, self?: Principal | null): string {
+  if (!principal) return 'N/A';
+  const text = principal.toText();
+  if (self && text === self.toText()) {
+    return 'You';
+  }
+  const groups = text.split('-');
+  return groups.length > 2 ? `${groups[0]}-...-${groups[groups.length - 1]}` : text;
+}
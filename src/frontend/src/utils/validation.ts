@@ -1,3 +1,5 @@
+import { parseRupeesToPaise, splitRupeeSign } from './amount';
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -64,5 +66,21 @@ export function validateAmount(value: string): ValidationResult {
     };
   }
 
+  // Amounts are stored in paise, so at most two decimal places
+  if (parseRupeesToPaise(value) === null) {
+    return {
+      isValid: false,
+      error: 'Amount can have at most 2 decimal places'
+    };
+  }
+
   return { isValid: true };
 }
+
+/**
+ * Like validateAmount, but allows a leading minus sign for credits, as in
+ * imported files.
+ */
+export function validateSignedAmount(value: string): ValidationResult {
+  return validateAmount(splitRupeeSign(value).rupees);
+}
@@ -0,0 +1,257 @@
+import { readZip } from './zip';
+import { fromExcelSerialDate, formatManualDate } from './date';
+
+export interface WorksheetData {
+  name: string;
+  rows: string[][];
+}
+
+const RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Built-in number formats that display dates (see ECMA-376 Part 1, 18.8.30)
+const BUILTIN_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+function parseXML(bytes: Uint8Array, path: string): Document {
+  const text = new TextDecoder().decode(bytes);
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid XML in ${path}`);
+  }
+  return doc;
+}
+
+// Finds descendant elements by local name, regardless of namespace prefix
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter((child) => child.localName === localName);
+}
+
+// Resolves a relationship target relative to the part that owns it
+function resolvePartPath(basePath: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.slice(1);
+  }
+
+  const segments = basePath.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+// Concatenates the text runs of a rich or plain string item, skipping phonetic hints
+function readStringItem(item: Element): string {
+  return elements(item, 't')
+    .filter((t) => t.parentElement?.localName !== 'rPh')
+    .map((t) => t.textContent ?? '')
+    .join('');
+}
+
+function readSharedStrings(files: Map<string, Uint8Array>, path: string | null): string[] {
+  if (!path || !files.has(path)) {
+    return [];
+  }
+  const doc = parseXML(files.get(path)!, path);
+  return elements(doc, 'si').map(readStringItem);
+}
+
+// Returns true if a custom number format code displays a date
+function isDateFormatCode(formatCode: string): boolean {
+  const stripped = formatCode
+    .replace(/"[^"]*"/g, '')
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/\\./g, '');
+  return /[dmy]/i.test(stripped) && !/^[#0.,%\s]*$/.test(stripped);
+}
+
+// Returns, for each cellXfs index, whether that style formats numbers as dates
+function readDateStyles(files: Map<string, Uint8Array>, path: string | null): boolean[] {
+  if (!path || !files.has(path)) {
+    return [];
+  }
+
+  const doc = parseXML(files.get(path)!, path);
+  const customDateFormats = new Set<number>();
+  for (const numFmt of elements(doc, 'numFmt')) {
+    const id = parseInt(numFmt.getAttribute('numFmtId') ?? '', 10);
+    if (!isNaN(id) && isDateFormatCode(numFmt.getAttribute('formatCode') ?? '')) {
+      customDateFormats.add(id);
+    }
+  }
+
+  const cellXfs = elements(doc, 'cellXfs')[0];
+  if (!cellXfs) {
+    return [];
+  }
+
+  return childElements(cellXfs, 'xf').map((xf) => {
+    const id = parseInt(xf.getAttribute('numFmtId') ?? '0', 10);
+    return BUILTIN_DATE_FORMAT_IDS.has(id) || customDateFormats.has(id);
+  });
+}
+
+// Converts a cell reference's column letters to a zero-based index (A -> 0, AA -> 26)
+function columnIndexFromRef(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  let index = 0;
+  for (const char of letters) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Formats a numeric cell value without exponent notation for whole numbers.
+// Values are rounded to 15 significant digits, as Excel displays them, so
+// binary noise such as 499.74999999999994 reads back as 499.75.
+function formatNumber(raw: string): string {
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed)) {
+    return raw;
+  }
+  const value = Number(parsed.toPrecision(15));
+  if (Number.isInteger(value) && Math.abs(value) < 1e21) {
+    return value.toFixed(0);
+  }
+  return String(value);
+}
+
+function readCellValue(cell: Element, sharedStrings: string[], dateStyles: boolean[]): string {
+  const type = cell.getAttribute('t') ?? 'n';
+  const valueElement = childElements(cell, 'v')[0];
+  const raw = valueElement?.textContent ?? '';
+
+  switch (type) {
+    case 's':
+      return sharedStrings[parseInt(raw, 10)] ?? '';
+    case 'inlineStr': {
+      const inline = childElements(cell, 'is')[0];
+      return inline ? readStringItem(inline) : '';
+    }
+    case 'b':
+      return raw === '1' ? 'TRUE' : 'FALSE';
+    case 'str':
+    case 'e':
+      return raw;
+    default: {
+      if (raw === '') {
+        return '';
+      }
+      const style = parseInt(cell.getAttribute('s') ?? '0', 10);
+      if (dateStyles[style]) {
+        const date = fromExcelSerialDate(Number(raw));
+        if (date) {
+          return formatManualDate(date);
+        }
+      }
+      return formatNumber(raw);
+    }
+  }
+}
+
+function readWorksheetRows(doc: Document, sharedStrings: string[], dateStyles: boolean[]): string[][] {
+  const rows: string[][] = [];
+  let nextRowIndex = 0;
+
+  for (const rowElement of elements(doc, 'row')) {
+    // Row and cell references are optional; fall back to document order
+    const rowRef = parseInt(rowElement.getAttribute('r') ?? '', 10);
+    const rowIndex = isNaN(rowRef) ? nextRowIndex : rowRef - 1;
+    nextRowIndex = rowIndex + 1;
+
+    const values: string[] = [];
+    let nextColumnIndex = 0;
+    for (const cell of childElements(rowElement, 'c')) {
+      const ref = cell.getAttribute('r');
+      const columnIndex = ref ? columnIndexFromRef(ref) : nextColumnIndex;
+      nextColumnIndex = columnIndex + 1;
+      while (values.length < columnIndex) {
+        values.push('');
+      }
+      values[columnIndex] = readCellValue(cell, sharedStrings, dateStyles).trim();
+    }
+
+    while (rows.length < rowIndex) {
+      rows.push([]);
+    }
+    rows[rowIndex] = values;
+  }
+
+  return rows;
+}
+
+/**
+ * Reads every worksheet of an .xlsx workbook into rows of display strings.
+ * Shared and inline strings are resolved, date-formatted cells are converted
+ * to YYYY-MM-DD, and sheets are returned in workbook order.
+ */
+export async function readXLSXWorkbook(data: Uint8Array<ArrayBuffer>): Promise<WorksheetData[]> {
+  const files = await readZip(data);
+
+  // Locate the workbook part through the package relationships
+  let workbookPath = 'xl/workbook.xml';
+  const rootRels = files.get('_rels/.rels');
+  if (rootRels) {
+    const officeDocument = elements(parseXML(rootRels, '_rels/.rels'), 'Relationship').find((rel) =>
+      (rel.getAttribute('Type') ?? '').endsWith('/officeDocument')
+    );
+    const target = officeDocument?.getAttribute('Target');
+    if (target) {
+      workbookPath = resolvePartPath('', target);
+    }
+  }
+
+  const workbookBytes = files.get(workbookPath);
+  if (!workbookBytes) {
+    throw new Error('The file is not a valid XLSX workbook');
+  }
+
+  const workbookDir = workbookPath.split('/').slice(0, -1).join('/');
+  const relsPath = `${workbookDir ? `${workbookDir}/` : ''}_rels/${workbookPath.split('/').pop()}.rels`;
+  const relationships = new Map<string, { type: string; target: string }>();
+  if (files.has(relsPath)) {
+    for (const rel of elements(parseXML(files.get(relsPath)!, relsPath), 'Relationship')) {
+      relationships.set(rel.getAttribute('Id') ?? '', {
+        type: rel.getAttribute('Type') ?? '',
+        target: resolvePartPath(workbookPath, rel.getAttribute('Target') ?? ''),
+      });
+    }
+  }
+
+  const findPartByType = (suffix: string): string | null => {
+    for (const rel of relationships.values()) {
+      if (rel.type.endsWith(suffix)) return rel.target;
+    }
+    return null;
+  };
+
+  const sharedStrings = readSharedStrings(files, findPartByType('/sharedStrings'));
+  const dateStyles = readDateStyles(files, findPartByType('/styles'));
+
+  const workbookDoc = parseXML(workbookBytes, workbookPath);
+  const sheets: WorksheetData[] = [];
+
+  for (const sheet of elements(workbookDoc, 'sheet')) {
+    const relId =
+      sheet.getAttributeNS(RELATIONSHIP_NAMESPACE, 'id') || sheet.getAttribute('r:id') || '';
+    const path = relationships.get(relId)?.target;
+    if (!path || !files.has(path)) continue;
+
+    // Chart sheets and dialog sheets carry no cell data
+    const sheetDoc = parseXML(files.get(path)!, path);
+    if (sheetDoc.documentElement.localName !== 'worksheet') continue;
+
+    sheets.push({
+      name: sheet.getAttribute('name') ?? `Sheet${sheets.length + 1}`,
+      rows: readWorksheetRows(sheetDoc, sharedStrings, dateStyles),
+    });
+  }
+
+  return sheets;
+}
@@ -0,0 +1,215 @@
+/**
+ * Minimal ZIP container support used by the XLSX import/export utilities.
+ * Archives are written with the "stored" (uncompressed) method, which every
+ * spreadsheet application accepts. Reading supports both stored and deflated
+ * members, decompressing the latter with the browser's DecompressionStream.
+ */
+
+export interface ZipFileEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+// Bit 11 marks file names as UTF-8 encoded
+const UTF8_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) {
+    return crcTable;
+  }
+
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+/**
+ * Computes the CRC-32 checksum of the given bytes.
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Converts a Date to the MS-DOS time/date pair stored in ZIP headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Builds an uncompressed ZIP archive containing the given files.
+ */
+export function createZip(files: ZipFileEntry[], modifiedAt: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const dos = toDosDateTime(modifiedAt);
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const nameBytes = encoder.encode(file.name);
+    const checksum = crc32(file.data);
+    const size = file.data.length;
+
+    // Local file header
+    const local = new Uint8Array(30 + nameBytes.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+    localView.setUint16(4, 20, true); // version needed to extract
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, METHOD_STORED, true);
+    localView.setUint16(10, dos.time, true);
+    localView.setUint16(12, dos.date, true);
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, size, true); // compressed size
+    localView.setUint32(22, size, true); // uncompressed size
+    localView.setUint16(26, nameBytes.length, true);
+    localView.setUint16(28, 0, true); // extra field length
+    local.set(nameBytes, 30);
+
+    // Central directory record
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+    centralView.setUint16(4, 20, true); // version made by
+    centralView.setUint16(6, 20, true); // version needed to extract
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, METHOD_STORED, true);
+    centralView.setUint16(12, dos.time, true);
+    centralView.setUint16(14, dos.date, true);
+    centralView.setUint32(16, checksum, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint16(30, 0, true); // extra field length
+    centralView.setUint16(32, 0, true); // comment length
+    centralView.setUint16(34, 0, true); // disk number start
+    centralView.setUint16(36, 0, true); // internal attributes
+    centralView.setUint32(38, 0, true); // external attributes
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    localParts.push(local, file.data);
+    centralParts.push(central);
+    offset += local.length + size;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+
+  // End of central directory record
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, files.length, true); // entries on this disk
+  endView.setUint16(10, files.length, true); // total entries
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const output = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...localParts, ...centralParts, end]) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+// Locates the end of central directory record, which may be followed by a comment
+function findEndOfCentralDirectory(view: DataView): number {
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= minOffset; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Returns true if the bytes start with a ZIP local file header signature.
+ */
+export function isZipArchive(data: Uint8Array): boolean {
+  return data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+/**
+ * Reads a ZIP archive and returns its files keyed by path.
+ * Directories are skipped; unsupported compression methods throw.
+ */
+export async function readZip(data: Uint8Array<ArrayBuffer>): Promise<Map<string, Uint8Array<ArrayBuffer>>> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const endOffset = findEndOfCentralDirectory(view);
+  if (endOffset < 0) {
+    throw new Error('Not a valid ZIP archive');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let position = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array<ArrayBuffer>>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(data.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    // Sizes in the local header may be zero when a data descriptor is used,
+    // so only the name and extra field lengths are taken from it
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP local file header');
+    }
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const compressed = data.slice(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      files.set(name, compressed);
+    } else if (method === METHOD_DEFLATED) {
+      files.set(name, await inflateRaw(compressed));
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+  }
+
+  return files;
+}